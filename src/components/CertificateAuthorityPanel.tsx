@@ -0,0 +1,591 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Landmark, Download, Check, Ban } from 'lucide-react';
+import { DigitalSignatureSystem, CertificateInfo, CRLInfo } from '@/lib/crypto';
+import { CertificateAuthority, notifyAuthorityChanged, registerLocalAuthority } from '@/lib/ca';
+import { OCSPResponder, registerLocalResponder } from '@/lib/ocspResponder';
+import { REVOCATION_REASON_NAMES, RevocationReason } from '@/lib/crl';
+import { KEY_USAGE_NAMES, KeyUsage, parseGeneralNames } from '@/lib/x509';
+import { parseCSR } from '@/lib/csr';
+import { OID } from '@/lib/oids';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthorities } from '@/hooks/use-authorities';
+
+interface CertificateAuthorityPanelProps {
+  onCertificateIssued: (cert: CertificateInfo, options?: { trusted?: boolean }) => void;
+  onCrlPublished: (crl: CRLInfo) => void;
+}
+
+type CertificateProfile = 'server' | 'client' | 'codeSigning' | 'email';
+type KeySource = 'generate' | 'pem' | 'csr';
+
+const PROFILES: Record<CertificateProfile, { label: string; keyUsage: number[]; extendedKeyUsage: string[] }> = {
+  server: {
+    label: 'TLS Server',
+    keyUsage: [KeyUsage.digitalSignature, KeyUsage.keyEncipherment],
+    extendedKeyUsage: [OID.serverAuth],
+  },
+  client: {
+    label: 'TLS Client',
+    keyUsage: [KeyUsage.digitalSignature],
+    extendedKeyUsage: [OID.clientAuth],
+  },
+  codeSigning: {
+    label: 'Code Signing',
+    keyUsage: [KeyUsage.digitalSignature],
+    extendedKeyUsage: [OID.codeSigning],
+  },
+  email: {
+    label: 'S/MIME Email',
+    keyUsage: [KeyUsage.digitalSignature, KeyUsage.keyEncipherment],
+    extendedKeyUsage: [OID.emailProtection],
+  },
+};
+
+// End-entity key usages (certificate and CRL signing are reserved for CA certificates)
+const KEY_USAGE_OPTIONS = [
+  KeyUsage.digitalSignature,
+  KeyUsage.nonRepudiation,
+  KeyUsage.keyEncipherment,
+  KeyUsage.dataEncipherment,
+  KeyUsage.keyAgreement,
+];
+
+export const CertificateAuthorityPanel: React.FC<CertificateAuthorityPanelProps> = ({
+  onCertificateIssued,
+  onCrlPublished,
+}) => {
+  const authorities = useAuthorities();
+  const [caSubject, setCaSubject] = useState('');
+  const [caValidityDays, setCaValidityDays] = useState(3650);
+  const [caParent, setCaParent] = useState('root');
+  const [caPathLength, setCaPathLength] = useState('');
+  const [issuerIndex, setIssuerIndex] = useState('0');
+  const [subject, setSubject] = useState('');
+  const [validityDays, setValidityDays] = useState(365);
+  const [serialNumber, setSerialNumber] = useState('');
+  const [profile, setProfile] = useState<CertificateProfile>('server');
+  const [keyUsage, setKeyUsage] = useState<number[]>(PROFILES.server.keyUsage);
+  const [subjectAltNames, setSubjectAltNames] = useState('');
+  const [keySource, setKeySource] = useState<KeySource>('generate');
+  const [subjectPublicKeyPem, setSubjectPublicKeyPem] = useState('');
+  const [requestPem, setRequestPem] = useState('');
+  const [useRequestedExtensions, setUseRequestedExtensions] = useState(true);
+  const [issuedPrivateKeyPem, setIssuedPrivateKeyPem] = useState('');
+  const [revokeSerial, setRevokeSerial] = useState('');
+  const [revokeReason, setRevokeReason] = useState<string>(RevocationReason.unspecified.toString());
+  const [crlValidityDays, setCrlValidityDays] = useState(7);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const createAuthority = async () => {
+    setIsProcessing(true);
+    try {
+      const keyPair = await DigitalSignatureSystem.generateKeyPair(2048);
+      const pathLength = caPathLength.trim() ? parseInt(caPathLength, 10) : undefined;
+      if (pathLength !== undefined && (isNaN(pathLength) || pathLength < 0)) {
+        throw new Error('Path length must be a non-negative number');
+      }
+      const parent = caParent === 'root' ? null : authorities[parseInt(caParent, 10)];
+      const authority = parent
+        ? await parent.createIntermediate(keyPair, caSubject, caValidityDays, pathLength)
+        : await CertificateAuthority.createRoot(keyPair, caSubject, caValidityDays, pathLength);
+
+      // Every local CA gets an in-app OCSP responder with its own delegated signing key
+      registerLocalResponder(await OCSPResponder.create(authority, await DigitalSignatureSystem.generateKeyPair(2048)));
+
+      registerLocalAuthority(authority);
+      onCertificateIssued(await DigitalSignatureSystem.parseCertificate(authority.pem), { trusted: !parent });
+      setCaSubject('');
+      setCaPathLength('');
+
+      toast({
+        title: parent ? "Intermediate CA Created" : "Root CA Created",
+        description: `${authority.name} can now issue certificates and answer OCSP requests`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const selectProfile = (value: CertificateProfile) => {
+    setProfile(value);
+    setKeyUsage(PROFILES[value].keyUsage);
+  };
+
+  const toggleKeyUsage = (bit: number, checked: boolean) => {
+    setKeyUsage(prev => checked ? [...prev, bit].sort() : prev.filter(b => b !== bit));
+  };
+
+  const issueCertificate = async () => {
+    const authority = authorities[parseInt(issuerIndex, 10)];
+    if (!authority) return;
+
+    setIsProcessing(true);
+    try {
+      let der: Uint8Array;
+      let privateKeyPem = '';
+      const sans = parseGeneralNames(subjectAltNames);
+      if (keySource === 'csr') {
+        const csr = parseCSR(requestPem);
+        der = await authority.issueFromRequest(csr, {
+          subject: subject.trim() || undefined,
+          validityDays,
+          serialNumber: serialNumber.trim() || undefined,
+          ...(useRequestedExtensions ? {} : {
+            keyUsage,
+            extendedKeyUsage: PROFILES[profile].extendedKeyUsage,
+            subjectAltNames: sans,
+          }),
+        });
+      } else {
+        let publicKey: CryptoKey;
+        if (keySource === 'generate') {
+          const keyPair = await DigitalSignatureSystem.generateKeyPair(2048);
+          publicKey = keyPair.publicKey;
+          privateKeyPem = await DigitalSignatureSystem.exportPrivateKey(keyPair.privateKey);
+        } else {
+          publicKey = await DigitalSignatureSystem.importPublicKey(subjectPublicKeyPem);
+        }
+
+        der = await authority.issue({
+          subject,
+          publicKey,
+          validityDays,
+          serialNumber: serialNumber.trim() || undefined,
+          keyUsage,
+          extendedKeyUsage: PROFILES[profile].extendedKeyUsage,
+          subjectAltNames: sans,
+        });
+      }
+
+      notifyAuthorityChanged();
+      onCertificateIssued(await DigitalSignatureSystem.parseCertificate(der));
+      setIssuedPrivateKeyPem(privateKeyPem);
+      setSubject('');
+      setSerialNumber('');
+      setSubjectAltNames('');
+      setRequestPem('');
+
+      toast({
+        title: "Certificate Issued",
+        description: `Certificate issued by ${authority.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to issue certificate: ${error}`,
+        variant: "destructive",
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const revokeCertificate = () => {
+    const authority = authorities[parseInt(issuerIndex, 10)];
+    if (!authority) return;
+
+    try {
+      authority.revoke(revokeSerial, parseInt(revokeReason, 10));
+      notifyAuthorityChanged();
+      setRevokeSerial('');
+
+      toast({
+        title: "Certificate Revoked",
+        description: `Serial ${revokeSerial} revoked (${REVOCATION_REASON_NAMES[parseInt(revokeReason, 10)]}). Publish a CRL to distribute it.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to revoke certificate: ${error}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const publishCrl = async () => {
+    const authority = authorities[parseInt(issuerIndex, 10)];
+    if (!authority) return;
+
+    setIsProcessing(true);
+    try {
+      const crl = DigitalSignatureSystem.parseCRL(await authority.createCRL(crlValidityDays));
+      notifyAuthorityChanged();
+      onCrlPublished(crl);
+
+      toast({
+        title: "CRL Published",
+        description: `CRL #${crl.crlNumber} from ${authority.name} lists ${crl.revoked.length} revoked certificate(s)`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const selectedAuthority = authorities[parseInt(issuerIndex, 10)];
+
+  const downloadPrivateKey = () => {
+    const blob = new Blob([issuedPrivateKeyPem + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'issued_private_key.pem';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Certificate Authority
+        </CardTitle>
+        <CardDescription>
+          Create root and intermediate CAs and issue end-entity certificates from them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* CA Creation */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="caSubject">CA Subject</Label>
+            <Input
+              id="caSubject"
+              placeholder="CN=Test Root CA,O=Organization,C=US"
+              value={caSubject}
+              onChange={(e) => setCaSubject(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Issued By</Label>
+            <Select value={caParent} onValueChange={setCaParent}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="root">Self-signed (Root CA)</SelectItem>
+                {authorities.map((authority, index) => (
+                  <SelectItem key={index} value={index.toString()}>{authority.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="caValidity">Validity Period (Days)</Label>
+            <Input
+              id="caValidity"
+              type="number"
+              min="1"
+              value={caValidityDays}
+              onChange={(e) => setCaValidityDays(parseInt(e.target.value) || 3650)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="caPathLength">Path Length Constraint (Optional)</Label>
+            <Input
+              id="caPathLength"
+              type="number"
+              min="0"
+              placeholder="Unlimited"
+              value={caPathLength}
+              onChange={(e) => setCaPathLength(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button
+          onClick={createAuthority}
+          disabled={isProcessing || !caSubject.trim()}
+          className="w-full"
+        >
+          {isProcessing ? 'Processing...' : caParent === 'root' ? 'Create Root CA' : 'Create Intermediate CA'}
+        </Button>
+
+        {authorities.length > 0 && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {authorities.map((authority, index) => (
+                <Badge key={index} variant={authority.issuer ? 'outline' : 'secondary'}>
+                  {authority.issuer ? 'Intermediate' : 'Root'}: {authority.name}
+                </Badge>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Certificate Issuance */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Issuing CA</Label>
+                <Select value={issuerIndex} onValueChange={setIssuerIndex}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {authorities.map((authority, index) => (
+                      <SelectItem key={index} value={index.toString()}>{authority.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueSubject">Subject</Label>
+                <Input
+                  id="issueSubject"
+                  placeholder="CN=server.example.com,O=Organization,C=US"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueValidity">Validity Period (Days)</Label>
+                <Input
+                  id="issueValidity"
+                  type="number"
+                  min="1"
+                  value={validityDays}
+                  onChange={(e) => setValidityDays(parseInt(e.target.value) || 365)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueSerial">Serial Number (Hex, Optional)</Label>
+                <Input
+                  id="issueSerial"
+                  placeholder="Random 128-bit serial"
+                  value={serialNumber}
+                  onChange={(e) => setSerialNumber(e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Certificate Profile</Label>
+                <Select value={profile} onValueChange={(value) => selectProfile(value as CertificateProfile)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PROFILES).map(([value, info]) => (
+                      <SelectItem key={value} value={value}>{info.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueSan">Subject Alternative Names</Label>
+                <Input
+                  id="issueSan"
+                  placeholder="DNS:example.com, IP:10.0.0.1, email:user@example.com"
+                  value={subjectAltNames}
+                  onChange={(e) => setSubjectAltNames(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Key Usage</Label>
+              <div className="flex flex-wrap gap-4">
+                {KEY_USAGE_OPTIONS.map(bit => (
+                  <label key={bit} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={keyUsage.includes(bit)}
+                      disabled={keySource === 'csr' && useRequestedExtensions}
+                      onCheckedChange={(checked) => toggleKeyUsage(bit, checked === true)}
+                    />
+                    {KEY_USAGE_NAMES[bit]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Subject Key</Label>
+              <Select value={keySource} onValueChange={(value) => setKeySource(value as KeySource)}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="generate">Generate new RSA 2048 key pair</SelectItem>
+                  <SelectItem value="pem">Public key from Key Management (PEM)</SelectItem>
+                  <SelectItem value="csr">Certificate signing request (PKCS#10)</SelectItem>
+                </SelectContent>
+              </Select>
+              {keySource === 'pem' && (
+                <Textarea
+                  placeholder="-----BEGIN PUBLIC KEY-----&#10;...&#10;-----END PUBLIC KEY-----"
+                  value={subjectPublicKeyPem}
+                  onChange={(e) => setSubjectPublicKeyPem(e.target.value)}
+                  className="font-mono text-xs h-24 resize-none"
+                />
+              )}
+              {keySource === 'csr' && (
+                <>
+                  <Textarea
+                    placeholder="-----BEGIN CERTIFICATE REQUEST-----&#10;...&#10;-----END CERTIFICATE REQUEST-----"
+                    value={requestPem}
+                    onChange={(e) => setRequestPem(e.target.value)}
+                    className="font-mono text-xs h-24 resize-none"
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={useRequestedExtensions}
+                      onCheckedChange={(checked) => setUseRequestedExtensions(checked === true)}
+                    />
+                    Use the extensions requested in the CSR (subject is taken from the CSR when left blank)
+                  </label>
+                </>
+              )}
+            </div>
+
+            <Button
+              onClick={issueCertificate}
+              disabled={
+                isProcessing
+                || (keySource !== 'csr' && !subject.trim())
+                || (keySource === 'pem' && !subjectPublicKeyPem.trim())
+                || (keySource === 'csr' && !requestPem.trim())
+              }
+              className="w-full"
+            >
+              {isProcessing ? 'Issuing...' : 'Issue Certificate'}
+            </Button>
+
+            {issuedPrivateKeyPem && (
+              <Alert>
+                <Check className="h-4 w-4" />
+                <AlertDescription>
+                  <div className="space-y-2">
+                    <p>A new key pair was generated for this certificate. Save the private key now.</p>
+                    <Textarea
+                      value={issuedPrivateKeyPem}
+                      readOnly
+                      className="font-mono text-xs h-24 resize-none"
+                    />
+                    <Button variant="outline" size="sm" onClick={downloadPrivateKey}>
+                      <Download className="h-4 w-4" />
+                      Download Private Key
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Separator />
+
+            {/* Revocation */}
+            {selectedAuthority && (
+              <div className="space-y-4">
+                <Label className="flex items-center gap-2">
+                  <Ban className="h-4 w-4" />
+                  Revocation for {selectedAuthority.name}
+                </Label>
+
+                {selectedAuthority.issuedCertificates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This CA has not issued any certificates yet.</p>
+                ) : (
+                  <div className="space-y-1 text-sm">
+                    {selectedAuthority.issuedCertificates.map(entry => (
+                      <div key={entry.serialNumber} className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          {entry.subject} <span className="font-mono text-xs text-muted-foreground">({entry.serialNumber})</span>
+                        </span>
+                        {entry.revocation ? (
+                          <Badge variant="destructive">
+                            Revoked: {REVOCATION_REASON_NAMES[entry.revocation.reason]}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Active</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Certificate</Label>
+                    <Select value={revokeSerial} onValueChange={setRevokeSerial}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select certificate" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedAuthority.issuedCertificates
+                          .filter(entry => !entry.revocation)
+                          .map(entry => (
+                            <SelectItem key={entry.serialNumber} value={entry.serialNumber}>
+                              {entry.subject}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Reason</Label>
+                    <Select value={revokeReason} onValueChange={setRevokeReason}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(RevocationReason).map(code => (
+                          <SelectItem key={code} value={code.toString()}>{REVOCATION_REASON_NAMES[code]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="crlValidity">CRL Next Update (Days)</Label>
+                    <Input
+                      id="crlValidity"
+                      type="number"
+                      min="1"
+                      value={crlValidityDays}
+                      onChange={(e) => setCrlValidityDays(parseInt(e.target.value) || 7)}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="destructive"
+                    onClick={revokeCertificate}
+                    disabled={!revokeSerial}
+                  >
+                    Revoke Certificate
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={publishCrl}
+                    disabled={isProcessing}
+                  >
+                    Publish CRL
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
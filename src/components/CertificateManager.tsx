@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,9 +7,27 @@ import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Award, Plus, FileCheck, Info } from 'lucide-react';
-import { DigitalSignatureSystem, CertificateInfo, KeyPair } from '@/lib/crypto';
+import { Award, Plus, FileCheck, Info, Upload, ShieldCheck, CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  DigitalSignatureSystem,
+  CertificateInfo,
+  ChainValidationResult,
+  CRLInfo,
+  KeyPair,
+  OCSPStatusInfo,
+} from '@/lib/crypto';
+import { CertificateAuthorityPanel } from './CertificateAuthorityPanel';
+import { CertificateRequestPanel } from './CertificateRequestPanel';
+import { CertificateRevocationPanel } from './CertificateRevocationPanel';
+import { storeKeyPair } from '@/lib/keystore';
 import { useToast } from '@/hooks/use-toast';
+import { useVaultDocument } from '@/hooks/use-vault';
+
+interface CertificateStore {
+  certificates: CertificateInfo[];
+  trustedFingerprints: string[];
+  crls: CRLInfo[];
+}
 
 export const CertificateManager: React.FC = () => {
   const [certificates, setCertificates] = useState<CertificateInfo[]>([]);
@@ -19,8 +37,65 @@ export const CertificateManager: React.FC = () => {
   const [importCertPem, setImportCertPem] = useState('');
   const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [trustedFingerprints, setTrustedFingerprints] = useState<string[]>([]);
+  const [chainResults, setChainResults] = useState<Record<string, ChainValidationResult>>({});
+  const [crls, setCrls] = useState<CRLInfo[]>([]);
+  const [ocspResults, setOcspResults] = useState<Record<string, OCSPStatusInfo | { error: string }>>({});
+  const [isCheckingOcsp, setIsCheckingOcsp] = useState(false);
   const { toast } = useToast();
 
+  // The store is sealed in the vault while it is unlocked; certificates added before unlocking are kept
+  const certificateStore = useMemo<CertificateStore>(
+    () => ({ certificates, trustedFingerprints, crls }),
+    [certificates, trustedFingerprints, crls]
+  );
+  useVaultDocument<CertificateStore>('certificates', certificateStore, stored => {
+    if (!stored) {
+      setCertificates([]);
+      setTrustedFingerprints([]);
+      setCrls([]);
+      setSelectedCert(null);
+      return;
+    }
+    setCertificates(prev => [
+      ...stored.certificates,
+      ...prev.filter(cert => !stored.certificates.some(existing => existing.fingerprint === cert.fingerprint)),
+    ]);
+    setTrustedFingerprints(prev => [...new Set([...stored.trustedFingerprints, ...prev])]);
+    setCrls(prev => [...stored.crls, ...prev.filter(crl => !stored.crls.some(existing => existing.issuer === crl.issuer))]);
+  });
+
+  // Re-validate every certificate whenever the store, the trust anchors or the CRLs change
+  useEffect(() => {
+    let cancelled = false;
+    const validateAll = async () => {
+      const trustAnchors = certificates.filter(cert => trustedFingerprints.includes(cert.fingerprint));
+      const results: Record<string, ChainValidationResult> = {};
+      for (const cert of certificates) {
+        try {
+          results[cert.fingerprint] = await DigitalSignatureSystem.validateCertificateChain(
+            cert,
+            certificates,
+            trustAnchors,
+            crls
+          );
+        } catch (error) {
+          results[cert.fingerprint] = {
+            status: 'invalid',
+            chain: [{ subject: cert.subject, serialNumber: cert.serialNumber, valid: false, reasons: [String(error)] }],
+          };
+        }
+      }
+      if (!cancelled) {
+        setChainResults(results);
+      }
+    };
+    validateAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [certificates, trustedFingerprints, crls]);
+
   const generateCertificate = async () => {
     if (!newCertSubject.trim()) {
       toast({
@@ -38,7 +113,7 @@ export const CertificateManager: React.FC = () => {
       setKeyPair(newKeyPair);
       
       // Generate self-signed certificate
-      const cert = DigitalSignatureSystem.generateSelfSignedCert(
+      const cert = await DigitalSignatureSystem.generateSelfSignedCert(
         newKeyPair,
         newCertSubject,
         validityDays
@@ -46,10 +121,15 @@ export const CertificateManager: React.FC = () => {
       
       setCertificates(prev => [...prev, cert]);
       setSelectedCert(cert);
+
+      // Keep the certificate's key pair so it survives a reload and can be picked as a signer
+      const saved = await storeKeyPair(cert.subject, newKeyPair).then(() => true, () => false);
       
       toast({
         title: "Certificate Generated",
-        description: "Self-signed certificate created successfully",
+        description: saved
+          ? "Self-signed certificate created and its key pair saved to the keystore"
+          : "Self-signed certificate created, but its key pair could not be saved to the keystore",
       });
       
       // Clear form
@@ -65,27 +145,9 @@ export const CertificateManager: React.FC = () => {
     setIsGenerating(false);
   };
 
-  const importCertificate = () => {
-    if (!importCertPem.trim()) {
-      toast({
-        title: "Missing Information",
-        description: "Please provide certificate in PEM format",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  const addImportedCertificate = async (input: string | ArrayBuffer) => {
     try {
-      // This is a simplified certificate import for demonstration
-      // In a real implementation, you would parse the actual X.509 certificate
-      const cert: CertificateInfo = {
-        subject: 'Imported Certificate',
-        issuer: 'External CA',
-        serialNumber: Math.random().toString(16).substring(2, 10).toUpperCase(),
-        validFrom: new Date().toISOString(),
-        validTo: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
-        publicKey: 'RSA Public Key (Imported)',
-      };
+      const cert = await DigitalSignatureSystem.parseCertificate(input);
       
       setCertificates(prev => [...prev, cert]);
       setSelectedCert(cert);
@@ -93,7 +155,7 @@ export const CertificateManager: React.FC = () => {
       
       toast({
         title: "Certificate Imported",
-        description: "Certificate imported successfully",
+        description: `Imported certificate for ${cert.subject}`,
       });
     } catch (error) {
       toast({
@@ -104,8 +166,56 @@ export const CertificateManager: React.FC = () => {
     }
   };
 
+  const importCertificate = async () => {
+    if (!importCertPem.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide certificate in PEM format",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await addImportedCertificate(importCertPem);
+  };
+
+  const handleCertificateUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        addImportedCertificate(e.target?.result as ArrayBuffer);
+      };
+      reader.readAsArrayBuffer(file);
+    }
+    event.target.value = '';
+  };
+
+  const addIssuedCertificate = (cert: CertificateInfo, options?: { trusted?: boolean }) => {
+    setCertificates(prev => [...prev, cert]);
+    setSelectedCert(cert);
+    if (options?.trusted) {
+      setTrustedFingerprints(prev => [...prev, cert.fingerprint]);
+    }
+  };
+
+  // A newer CRL from the same issuer supersedes the one already loaded
+  const addCrl = (crl: CRLInfo) => {
+    setCrls(prev => [...prev.filter(existing => existing.issuer !== crl.issuer), crl]);
+  };
+
+  const deleteCrl = (index: number) => {
+    setCrls(prev => prev.filter((_, i) => i !== index));
+    toast({
+      title: "CRL Deleted",
+      description: "Revocation list removed; affected certificates are re-validated",
+    });
+  };
+
   const deleteCertificate = (index: number) => {
+    const fingerprint = certificates[index].fingerprint;
     setCertificates(prev => prev.filter((_, i) => i !== index));
+    setTrustedFingerprints(prev => prev.filter(f => f !== fingerprint));
     if (selectedCert === certificates[index]) {
       setSelectedCert(null);
     }
@@ -116,12 +226,7 @@ export const CertificateManager: React.FC = () => {
   };
 
   const exportCertificate = (cert: CertificateInfo) => {
-    // Generate a simplified PEM-like format for demonstration
-    const certPem = `-----BEGIN CERTIFICATE-----
-${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
------END CERTIFICATE-----`;
-    
-    const blob = new Blob([certPem], { type: 'text/plain' });
+    const blob = new Blob([cert.pem + '\n'], { type: 'application/x-pem-file' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -132,6 +237,77 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
     URL.revokeObjectURL(url);
   };
 
+  const toggleTrust = (cert: CertificateInfo) => {
+    const trusted = trustedFingerprints.includes(cert.fingerprint);
+    setTrustedFingerprints(prev =>
+      trusted ? prev.filter(f => f !== cert.fingerprint) : [...prev, cert.fingerprint]
+    );
+    toast({
+      title: trusted ? "Trust Removed" : "Trust Anchor Added",
+      description: trusted
+        ? `${cert.subject} is no longer a trusted root`
+        : `${cert.subject} is now trusted for path validation`,
+    });
+  };
+
+  const chainBadge = (result?: ChainValidationResult) => {
+    if (!result) {
+      return <Badge variant="secondary">Checking Chain...</Badge>;
+    }
+    switch (result.status) {
+      case 'valid':
+        return <Badge variant="default">Chain Valid</Badge>;
+      case 'untrusted':
+        return <Badge variant="outline">Untrusted</Badge>;
+      default:
+        return <Badge variant="destructive">Chain Invalid</Badge>;
+    }
+  };
+
+  // Ask the in-app OCSP responder for the status of a certificate, trying each candidate issuer in the store
+  const checkOcspStatus = async (cert: CertificateInfo) => {
+    const issuers = certificates.filter(candidate => candidate.subject === cert.issuer);
+    if (issuers.length === 0) {
+      toast({
+        title: "Issuer Not Found",
+        description: "Add the issuing CA certificate to the store to check OCSP status",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCheckingOcsp(true);
+    let result: OCSPStatusInfo | { error: string } = { error: 'No issuer produced a valid response' };
+    for (const issuer of issuers) {
+      try {
+        result = await DigitalSignatureSystem.checkOCSPStatus(cert, issuer);
+        break;
+      } catch (error) {
+        result = { error: String(error) };
+      }
+    }
+    setOcspResults(prev => ({ ...prev, [cert.fingerprint]: result }));
+    setIsCheckingOcsp(false);
+  };
+
+  const ocspBadge = (result: OCSPStatusInfo | { error: string }) => {
+    if ('error' in result) {
+      return <Badge variant="destructive">OCSP Check Failed</Badge>;
+    }
+    switch (result.status) {
+      case 'good':
+        return <Badge variant="default">Good</Badge>;
+      case 'revoked':
+        return <Badge variant="destructive">Revoked</Badge>;
+      default:
+        return <Badge variant="outline">Unknown</Badge>;
+    }
+  };
+
+  const selectedOcsp = selectedCert ? ocspResults[selectedCert.fingerprint] : undefined;
+
+  const revocationOf = (cert: CertificateInfo) => chainResults[cert.fingerprint]?.chain[0]?.revoked;
+
   const isExpired = (validTo: string): boolean => {
     return new Date(validTo) < new Date();
   };
@@ -197,12 +373,29 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
             Import Certificate
           </CardTitle>
           <CardDescription>
-            Import existing X.509 certificates in PEM format
+            Import existing X.509 certificates in PEM or DER format
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="importCert">Certificate (PEM Format)</Label>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="file"
+                accept=".crt,.cer,.der,.pem"
+                onChange={handleCertificateUpload}
+                className="hidden"
+                id="cert-upload"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => document.getElementById('cert-upload')?.click()}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Certificate File
+              </Button>
+            </div>
             <Textarea
               id="importCert"
               placeholder="-----BEGIN CERTIFICATE-----&#10;...&#10;-----END CERTIFICATE-----"
@@ -222,6 +415,15 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
         </CardContent>
       </Card>
 
+      {/* Certificate Signing Request */}
+      <CertificateRequestPanel />
+
+      {/* Local Certificate Authority */}
+      <CertificateAuthorityPanel onCertificateIssued={addIssuedCertificate} onCrlPublished={addCrl} />
+
+      {/* Certificate Revocation Lists */}
+      <CertificateRevocationPanel crls={crls} onCrlImported={addCrl} onCrlDeleted={deleteCrl} />
+
       <Separator />
 
       {/* Certificate Store */}
@@ -251,6 +453,9 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
                     <div className="flex items-center justify-between">
                       <CardTitle className="text-lg">{cert.subject}</CardTitle>
                       <div className="flex gap-2">
+                        {revocationOf(cert) && (
+                          <Badge variant="destructive">Revoked</Badge>
+                        )}
                         {isExpired(cert.validTo) && (
                           <Badge variant="destructive">Expired</Badge>
                         )}
@@ -260,6 +465,10 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
                         {!isExpired(cert.validTo) && !isExpiringSoon(cert.validTo) && (
                           <Badge variant="default">Valid</Badge>
                         )}
+                        {trustedFingerprints.includes(cert.fingerprint) && (
+                          <Badge variant="secondary">Trusted Root</Badge>
+                        )}
+                        {chainBadge(chainResults[cert.fingerprint])}
                       </div>
                     </div>
                   </CardHeader>
@@ -277,7 +486,22 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
                       <div>
                         <strong>Valid To:</strong> {new Date(cert.validTo).toLocaleDateString()}
                       </div>
+                      {revocationOf(cert) && (
+                        <div className="text-destructive">
+                          <strong>Revoked:</strong> {revocationOf(cert)!.date.toLocaleString()} ({revocationOf(cert)!.reason})
+                        </div>
+                      )}
                     </div>
+
+                    {chainResults[cert.fingerprint] && chainResults[cert.fingerprint].status !== 'valid' && (
+                      <div className="text-xs text-muted-foreground space-y-1">
+                        {chainResults[cert.fingerprint].chain
+                          .flatMap(verdict => verdict.valid ? [] : verdict.reasons)
+                          .map((reason, i) => (
+                            <p key={i}>• {reason}</p>
+                          ))}
+                      </div>
+                    )}
                     
                     <div className="flex gap-2 pt-2">
                       <Button
@@ -294,6 +518,14 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
                       >
                         Export
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleTrust(cert)}
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        {trustedFingerprints.includes(cert.fingerprint) ? 'Untrust' : 'Trust as Root'}
+                      </Button>
                       <Button
                         variant="destructive"
                         size="sm"
@@ -332,7 +564,11 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
                 </div>
                 <div>
                   <Label className="text-sm font-medium">Serial Number</Label>
-                  <p className="text-sm text-muted-foreground">{selectedCert.serialNumber}</p>
+                  <p className="text-sm text-muted-foreground font-mono break-all">{selectedCert.serialNumber}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium">Version</Label>
+                  <p className="text-sm text-muted-foreground">v{selectedCert.version}</p>
                 </div>
               </div>
               <div className="space-y-3">
@@ -352,7 +588,102 @@ ${btoa(JSON.stringify(cert)).match(/.{1,64}/g)?.join('\n')}
                   <Label className="text-sm font-medium">Public Key</Label>
                   <p className="text-sm text-muted-foreground">{selectedCert.publicKey}</p>
                 </div>
+                <div>
+                  <Label className="text-sm font-medium">Signature Algorithm</Label>
+                  <p className="text-sm text-muted-foreground">{selectedCert.signatureAlgorithm}</p>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium">SHA-256 Fingerprint</Label>
+              <p className="text-xs text-muted-foreground font-mono break-all">{selectedCert.fingerprint}</p>
+            </div>
+
+            {selectedCert.extensions.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Extensions</Label>
+                <div className="space-y-2">
+                  {selectedCert.extensions.map((extension) => (
+                    <div key={extension.oid} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{extension.name}</span>
+                        {extension.critical && <Badge variant="outline">Critical</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono break-all">{extension.value}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {chainResults[selectedCert.fingerprint] && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium">Certification Path</Label>
+                  {chainBadge(chainResults[selectedCert.fingerprint])}
+                </div>
+                <div className="space-y-2">
+                  {[...chainResults[selectedCert.fingerprint].chain].reverse().map((verdict, i) => (
+                    <div key={i} className="text-sm border-l-2 pl-3" style={{ marginLeft: `${i * 12}px` }}>
+                      <div className="flex items-center gap-2">
+                        {verdict.valid ? (
+                          <CheckCircle className="h-4 w-4 text-primary" />
+                        ) : (
+                          <AlertCircle className="h-4 w-4 text-destructive" />
+                        )}
+                        <span className="font-medium">{verdict.subject}</span>
+                      </div>
+                      {verdict.reasons.map((reason, j) => (
+                        <p key={j} className="text-xs text-muted-foreground">{reason}</p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label className="text-sm font-medium">OCSP Status</Label>
+                {selectedOcsp && ocspBadge(selectedOcsp)}
               </div>
+              {selectedOcsp && 'error' in selectedOcsp && (
+                <p className="text-xs text-muted-foreground">{selectedOcsp.error}</p>
+              )}
+              {selectedOcsp && !('error' in selectedOcsp) && (
+                <div className="text-xs text-muted-foreground space-y-1">
+                  {selectedOcsp.revocationTime && (
+                    <p>
+                      Revoked on {new Date(selectedOcsp.revocationTime).toLocaleString()}
+                      {selectedOcsp.reason && ` (${selectedOcsp.reason})`}
+                    </p>
+                  )}
+                  <p>Responder: {selectedOcsp.responder}</p>
+                  <p>Produced at: {new Date(selectedOcsp.producedAt).toLocaleString()}</p>
+                  <p>
+                    Valid: {new Date(selectedOcsp.thisUpdate).toLocaleString()}
+                    {selectedOcsp.nextUpdate && ` – ${new Date(selectedOcsp.nextUpdate).toLocaleString()}`}
+                  </p>
+                </div>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => checkOcspStatus(selectedCert)}
+                disabled={isCheckingOcsp}
+              >
+                {isCheckingOcsp ? 'Checking...' : 'Check OCSP Status'}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Certificate (PEM)</Label>
+              <Textarea
+                value={selectedCert.pem}
+                readOnly
+                className="font-mono text-xs h-32 resize-none"
+              />
             </div>
             
             <Button
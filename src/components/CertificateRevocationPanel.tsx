@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ListX, Upload, Info } from 'lucide-react';
+import { DigitalSignatureSystem, CRLInfo } from '@/lib/crypto';
+import { crlInputToDer } from '@/lib/crl';
+import { useToast } from '@/hooks/use-toast';
+
+interface CertificateRevocationPanelProps {
+  crls: CRLInfo[];
+  onCrlImported: (crl: CRLInfo) => void;
+  onCrlDeleted: (index: number) => void;
+}
+
+export const CertificateRevocationPanel: React.FC<CertificateRevocationPanelProps> = ({
+  crls,
+  onCrlImported,
+  onCrlDeleted,
+}) => {
+  const [importCrlPem, setImportCrlPem] = useState('');
+  const { toast } = useToast();
+
+  const importCrl = (input: string | ArrayBuffer) => {
+    try {
+      const crl = DigitalSignatureSystem.parseCRL(input);
+      onCrlImported(crl);
+      setImportCrlPem('');
+
+      toast({
+        title: "CRL Imported",
+        description: `CRL from ${crl.issuer} lists ${crl.revoked.length} revoked certificate(s)`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to import CRL: ${error}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCrlUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        importCrl(e.target?.result as ArrayBuffer);
+      };
+      reader.readAsArrayBuffer(file);
+    }
+    event.target.value = '';
+  };
+
+  const exportCrl = (crl: CRLInfo, format: 'pem' | 'der') => {
+    const blob = format === 'pem'
+      ? new Blob([crl.pem + '\n'], { type: 'application/x-pem-file' })
+      : new Blob([crlInputToDer(crl.pem)], { type: 'application/pkix-crl' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `crl_${crl.crlNumber ?? 'export'}.${format === 'pem' ? 'pem' : 'crl'}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const isStale = (crl: CRLInfo): boolean => {
+    return !!crl.nextUpdate && new Date(crl.nextUpdate) < new Date();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListX className="h-5 w-5" />
+          Certificate Revocation Lists
+        </CardTitle>
+        <CardDescription>
+          CRLs published by local CAs or imported from third parties are checked during chain validation
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="importCrl">Import CRL (PEM or DER)</Label>
+          <div className="flex gap-2 mb-2">
+            <input
+              type="file"
+              accept=".crl,.der,.pem"
+              onChange={handleCrlUpload}
+              className="hidden"
+              id="crl-upload"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => document.getElementById('crl-upload')?.click()}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload CRL File
+            </Button>
+          </div>
+          <Textarea
+            id="importCrl"
+            placeholder="-----BEGIN X509 CRL-----&#10;...&#10;-----END X509 CRL-----"
+            value={importCrlPem}
+            onChange={(e) => setImportCrlPem(e.target.value)}
+            className="font-mono text-xs h-24 resize-none"
+          />
+        </div>
+
+        <Button
+          onClick={() => importCrl(importCrlPem)}
+          disabled={!importCrlPem.trim()}
+          className="w-full"
+        >
+          Import CRL
+        </Button>
+
+        {crls.length === 0 ? (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              No CRLs loaded. Revocation status is not checked until a CRL is published or imported.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            {crls.map((crl, index) => (
+              <Card key={index} className="border-l-4 border-l-destructive">
+                <CardContent className="pt-4 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{crl.issuer}</span>
+                    <div className="flex gap-2">
+                      {crl.crlNumber && <Badge variant="outline">CRL #{crl.crlNumber}</Badge>}
+                      {isStale(crl) ? (
+                        <Badge variant="destructive">Stale</Badge>
+                      ) : (
+                        <Badge variant="default">Current</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <div>
+                      <strong>This Update:</strong> {new Date(crl.thisUpdate).toLocaleString()}
+                    </div>
+                    <div>
+                      <strong>Next Update:</strong> {crl.nextUpdate ? new Date(crl.nextUpdate).toLocaleString() : 'Not specified'}
+                    </div>
+                    <div>
+                      <strong>Signature Algorithm:</strong> {crl.signatureAlgorithm}
+                    </div>
+                    <div>
+                      <strong>Revoked Certificates:</strong> {crl.revoked.length}
+                    </div>
+                  </div>
+                  {crl.revoked.length > 0 && (
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      {crl.revoked.map(entry => (
+                        <p key={entry.serialNumber} className="font-mono break-all">
+                          {entry.serialNumber} — {new Date(entry.revocationDate).toLocaleString()} ({entry.reason})
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2 pt-2">
+                    <Button variant="outline" size="sm" onClick={() => exportCrl(crl, 'pem')}>
+                      Export PEM
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => exportCrl(crl, 'der')}>
+                      Export DER
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => onCrlDeleted(index)}>
+                      Delete
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
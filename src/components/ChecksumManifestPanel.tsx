@@ -0,0 +1,461 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ListChecks, Upload, Download, Copy, FileText, X } from 'lucide-react';
+import { DigitalSignatureSystem, HashAlgorithm, HashOptions, HashProgress } from '@/lib/crypto';
+import { HASH_ALGORITHMS, isExtendableOutput } from '@/lib/hashing';
+import { ManifestEntry, ManifestStyle, formatManifest, manifestFileName, parseManifest } from '@/lib/manifest';
+import { formatFileSize } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+type ChecksumStatus = 'OK' | 'FAILED' | 'MISSING';
+
+interface ChecksumResult {
+  fileName: string;
+  algorithm: HashAlgorithm;
+  status: ChecksumStatus;
+}
+
+interface ManifestProgress extends HashProgress {
+  currentFile: string;
+}
+
+// SHAKE digests have no fixed length, so manifests are limited to the fixed-length algorithms
+const MANIFEST_ALGORITHMS = HASH_ALGORITHMS.filter(algorithm => !isExtendableOutput(algorithm));
+
+const STATUS_VARIANTS: Record<ChecksumStatus, 'default' | 'destructive' | 'secondary'> = {
+  OK: 'default',
+  FAILED: 'destructive',
+  MISSING: 'secondary',
+};
+
+// Folder drops and pickers set webkitRelativePath; plain file drops only have a name
+const filePath = (file: File) => file.webkitRelativePath || file.name;
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+const entryPath = (entry: ManifestEntry) => entry.fileName.replace(/^\.\//, '');
+
+export const ChecksumManifestPanel: React.FC = () => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifestText, setManifestText] = useState('');
+  const [manifestName, setManifestName] = useState<string | undefined>();
+  const [results, setResults] = useState<ChecksumResult[]>([]);
+  const [generateAlgorithm, setGenerateAlgorithm] = useState<HashAlgorithm>('SHA-256');
+  const [manifestStyle, setManifestStyle] = useState<ManifestStyle>('gnu');
+  const [generatedManifest, setGeneratedManifest] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ManifestProgress | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // A file whose path is already listed is skipped rather than replacing the earlier one, since plain
+  // drops of same-named files from different folders would otherwise silently overwrite each other
+  const addFiles = (added: FileList | null) => {
+    if (!added || added.length === 0) return;
+    const listed = new Set(files.map(filePath));
+    const skipped: string[] = [];
+    const accepted = Array.from(added).filter(file => {
+      if (listed.has(filePath(file))) {
+        skipped.push(filePath(file));
+        return false;
+      }
+      listed.add(filePath(file));
+      return true;
+    });
+    setFiles(prev => [...prev, ...accepted]);
+    setResults([]);
+
+    if (skipped.length > 0) {
+      toast({
+        title: "Files Skipped",
+        description: `Already listed: ${skipped.join(', ')}. Remove the earlier file to replace it.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(event.dataTransfer.files);
+  };
+
+  const handleManifestUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setManifestText(e.target?.result as string);
+        setManifestName(file.name);
+        setResults([]);
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  // Entries may carry directories ("./dist/app.iso"); match the full path first, then the bare file name,
+  // but only when that name is unique among both the manifest's paths and the files, so "a/x.bin" and
+  // "b/x.bin" are not both checked against one dropped "x.bin"
+  const findFile = (entry: ManifestEntry, entries: ManifestEntry[]): File | undefined => {
+    const path = entryPath(entry);
+    const exact = files.find(file => filePath(file) === path);
+    if (exact) return exact;
+    const name = baseName(path);
+    const entryPaths = new Set(entries.map(entryPath).filter(candidate => baseName(candidate) === name));
+    const candidates = files.filter(file => baseName(filePath(file)) === name);
+    return entryPaths.size === 1 && candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  // Hash each file once for all the algorithms it needs, reporting progress across the whole batch
+  const hashFiles = async (
+    jobs: { file: File; algorithms: HashAlgorithm[]; options?: HashOptions }[]
+  ): Promise<Map<File, Partial<Record<HashAlgorithm, string>>>> => {
+    const controller = new AbortController();
+    abortController.current = controller;
+    const totalBytes = jobs.reduce((sum, job) => sum + job.file.size, 0);
+    const digests = new Map<File, Partial<Record<HashAlgorithm, string>>>();
+    let completedBytes = 0;
+    try {
+      for (const { file, algorithms, options } of jobs) {
+        setProgress({ bytesProcessed: completedBytes, totalBytes, currentFile: filePath(file) });
+        digests.set(file, await DigitalSignatureSystem.calculateFileHashes(file, algorithms, {
+          ...options,
+          signal: controller.signal,
+          onProgress: ({ bytesProcessed }) => setProgress({
+            bytesProcessed: completedBytes + bytesProcessed,
+            totalBytes,
+            currentFile: filePath(file),
+          }),
+        }));
+        completedBytes += file.size;
+      }
+      return digests;
+    } finally {
+      abortController.current = null;
+      setProgress(null);
+    }
+  };
+
+  const reportFailure = (error: unknown, title: string) => {
+    const cancelled = error instanceof Error && error.message.includes('Hashing cancelled');
+    toast({
+      title: cancelled ? "Hashing Cancelled" : title,
+      description: cancelled ? "The checksum run was stopped" : `${error}`,
+      variant: cancelled ? "default" : "destructive",
+    });
+  };
+
+  const verifyManifest = async () => {
+    let entries: ManifestEntry[];
+    try {
+      entries = parseManifest(manifestText, manifestName);
+    } catch (error) {
+      toast({
+        title: "Invalid Manifest",
+        description: `${error}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const matches = entries.map(entry => ({ entry, file: findFile(entry, entries) }));
+    const jobs = new Map<File, { file: File; algorithms: HashAlgorithm[]; options?: HashOptions }>();
+    for (const { entry, file } of matches) {
+      if (!file) continue;
+      const job = jobs.get(file) ?? { file, algorithms: [] };
+      if (!job.algorithms.includes(entry.algorithm)) {
+        job.algorithms.push(entry.algorithm);
+      }
+      if (isExtendableOutput(entry.algorithm)) {
+        job.options = { outputLength: entry.hash.length / 2 };
+      }
+      jobs.set(file, job);
+    }
+
+    setIsProcessing(true);
+    try {
+      const digests = await hashFiles(Array.from(jobs.values()));
+      const checked: ChecksumResult[] = matches.map(({ entry, file }) => ({
+        fileName: entry.fileName,
+        algorithm: entry.algorithm,
+        status: !file ? 'MISSING' : digests.get(file)?.[entry.algorithm] === entry.hash ? 'OK' : 'FAILED',
+      }));
+      setResults(checked);
+
+      const failed = checked.filter(result => result.status === 'FAILED').length;
+      const missing = checked.filter(result => result.status === 'MISSING').length;
+      toast({
+        title: failed === 0 && missing === 0 ? "All Checksums OK" : "Checksum Problems Found",
+        description: `${checked.length - failed - missing} OK, ${failed} failed, ${missing} missing`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      reportFailure(error, "Verification Failed");
+    }
+    setIsProcessing(false);
+  };
+
+  const generateManifest = async () => {
+    setIsProcessing(true);
+    try {
+      const digests = await hashFiles(files.map(file => ({ file, algorithms: [generateAlgorithm] })));
+      setGeneratedManifest(formatManifest(
+        files.map(file => ({ fileName: filePath(file), hash: digests.get(file)![generateAlgorithm]! })),
+        generateAlgorithm,
+        manifestStyle
+      ));
+      toast({
+        title: "Manifest Generated",
+        description: `${generateAlgorithm} checksums for ${files.length} file(s)`,
+      });
+    } catch (error) {
+      reportFailure(error, "Generation Failed");
+    }
+    setIsProcessing(false);
+  };
+
+  const downloadManifest = () => {
+    const blob = new Blob([generatedManifest], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = manifestFileName(generateAlgorithm);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const copyManifest = async () => {
+    try {
+      await navigator.clipboard.writeText(generatedManifest);
+      toast({
+        title: "Copied",
+        description: "Manifest copied to clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy manifest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Checksum Manifests
+        </CardTitle>
+        <CardDescription>
+          Verify files against SHA256SUMS-style manifests, or generate a manifest for a set of files
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* File selection */}
+        <div className="space-y-2">
+          <Label>Files</Label>
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`rounded-md border-2 border-dashed p-6 text-center text-sm text-muted-foreground ${
+              isDragging ? 'border-primary bg-primary/5' : ''
+            }`}
+          >
+            <p>Drop files here or</p>
+            <input
+              type="file"
+              multiple
+              onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+              className="hidden"
+              id="file-upload-checksums"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => document.getElementById('file-upload-checksums')?.click()}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Select Files
+            </Button>
+          </div>
+          {files.length > 0 && (
+            <div className="space-y-1">
+              {files.map(file => (
+                <div key={filePath(file)} className="flex items-center justify-between rounded-md border px-3 py-1 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{filePath(file)}</span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFiles(prev => prev.filter(f => f !== file))}
+                      disabled={isProcessing}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {progress && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span className="truncate">{progress.currentFile}</span>
+              <span>
+                {formatFileSize(progress.bytesProcessed)} of {formatFileSize(progress.totalBytes)}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Progress
+                value={progress.totalBytes > 0 ? (progress.bytesProcessed / progress.totalBytes) * 100 : 100}
+                className="flex-1"
+              />
+              <Button variant="outline" size="sm" onClick={() => abortController.current?.abort()}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Verification */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="manifestText">Manifest</Label>
+            <div className="flex items-center gap-2">
+              {manifestName && <Badge variant="secondary">{manifestName}</Badge>}
+              <input
+                type="file"
+                onChange={handleManifestUpload}
+                className="hidden"
+                id="file-upload-manifest"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => document.getElementById('file-upload-manifest')?.click()}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Load Manifest
+              </Button>
+            </div>
+          </div>
+          <Textarea
+            id="manifestText"
+            placeholder={'e3b0c442...b855  ubuntu.iso\nSHA256 (ubuntu.iso) = e3b0c442...b855'}
+            value={manifestText}
+            onChange={(e) => { setManifestText(e.target.value); setResults([]); }}
+            className="font-mono text-xs h-28 resize-none"
+          />
+          <Button
+            onClick={verifyManifest}
+            disabled={isProcessing || !manifestText.trim()}
+            className="w-full"
+          >
+            {isProcessing ? 'Hashing...' : 'Verify Files Against Manifest'}
+          </Button>
+        </div>
+
+        {results.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Algorithm</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-mono text-xs break-all">{result.fileName}</TableCell>
+                  <TableCell>{result.algorithm}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={STATUS_VARIANTS[result.status]}>{result.status}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Generation */}
+        <div className="space-y-2">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Algorithm</Label>
+              <Select value={generateAlgorithm} onValueChange={(value) => setGenerateAlgorithm(value as HashAlgorithm)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANIFEST_ALGORITHMS.map(algorithm => (
+                    <SelectItem key={algorithm} value={algorithm}>{algorithm}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={manifestStyle} onValueChange={(value) => setManifestStyle(value as ManifestStyle)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gnu">GNU (hash  file)</SelectItem>
+                  <SelectItem value="bsd">BSD (ALG (file) = hash)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={generateManifest}
+              disabled={isProcessing || files.length === 0}
+              className="ml-auto"
+            >
+              Generate Manifest
+            </Button>
+          </div>
+          {generatedManifest && (
+            <div className="space-y-2">
+              <Textarea
+                value={generatedManifest}
+                readOnly
+                className="font-mono text-xs h-28 resize-none"
+              />
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={copyManifest}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={downloadManifest}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download {manifestFileName(generateAlgorithm)}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
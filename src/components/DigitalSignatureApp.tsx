@@ -2,12 +2,14 @@ import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Shield, FileText, Award, Clock, Hash } from 'lucide-react';
+import { Shield, FileText, Award, Clock, Hash, KeyRound } from 'lucide-react';
 import { KeyManagement } from './KeyManagement';
 import { SignatureOperations } from './SignatureOperations';
 import { CertificateManager } from './CertificateManager';
 import { TimestampService } from './TimestampService';
 import { HashCalculator } from './HashCalculator';
+import { HmacCalculator } from './HmacCalculator';
+import { VaultControls } from './VaultControls';
 
 export const DigitalSignatureApp: React.FC = () => {
   const [activeTab, setActiveTab] = useState('keys');
@@ -28,10 +30,14 @@ export const DigitalSignatureApp: React.FC = () => {
           </p>
           <div className="flex justify-center gap-2 mt-4">
             <Badge variant="secondary">RSA-PSS</Badge>
+            <Badge variant="secondary">ECDSA</Badge>
+            <Badge variant="secondary">EdDSA</Badge>
             <Badge variant="secondary">X.509 Certificates</Badge>
             <Badge variant="secondary">RFC 3161 Timestamps</Badge>
             <Badge variant="secondary">Multiple Hash Algorithms</Badge>
+            <Badge variant="secondary">HMAC</Badge>
           </div>
+          <VaultControls />
         </div>
 
         {/* Main Content */}
@@ -45,7 +51,7 @@ export const DigitalSignatureApp: React.FC = () => {
           
           <CardContent className="p-6">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-5 mb-6">
+              <TabsList className="grid w-full grid-cols-6 mb-6">
                 <TabsTrigger value="keys" className="flex items-center gap-2">
                   <Shield className="h-4 w-4" />
                   Key Management
@@ -66,6 +72,10 @@ export const DigitalSignatureApp: React.FC = () => {
                   <Hash className="h-4 w-4" />
                   Hashing
                 </TabsTrigger>
+                <TabsTrigger value="hmac" className="flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  HMAC
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="keys" className="mt-0">
@@ -87,6 +97,10 @@ export const DigitalSignatureApp: React.FC = () => {
               <TabsContent value="hashing" className="mt-0">
                 <HashCalculator />
               </TabsContent>
+
+              <TabsContent value="hmac" className="mt-0">
+                <HmacCalculator />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -1,15 +1,20 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Hash, Upload, Copy, Check, AlertTriangle, Info } from 'lucide-react';
-import { DigitalSignatureSystem, HashAlgorithm } from '@/lib/crypto';
+import { Progress } from '@/components/ui/progress';
+import { Hash, Upload, Copy, Check, AlertTriangle, Info, FileText, X } from 'lucide-react';
+import { DigitalSignatureSystem, HashAlgorithm, HashOptions, HashProgress } from '@/lib/crypto';
+import { DEFAULT_SHAKE_LENGTHS, HASH_ALGORITHMS, isExtendableOutput } from '@/lib/hashing';
+import { formatFileSize } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { ChecksumManifestPanel } from './ChecksumManifestPanel';
 
 interface HashResult {
   algorithm: HashAlgorithm;
@@ -28,8 +33,13 @@ export const HashCalculator: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [copiedHash, setCopiedHash] = useState<string | null>(null);
+  const [progress, setProgress] = useState<HashProgress | null>(null);
+  const [shakeOutputBits, setShakeOutputBits] = useState('');
+  const abortController = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  const hasInput = uploadedFile !== null || inputText.trim() !== '';
+
   const algorithmInfo = {
     'SHA-1': { 
       strength: 'Weak', 
@@ -51,6 +61,51 @@ export const HashCalculator: React.FC = () => {
       variant: 'default' as const,
       description: 'Maximum security, highest resistance to attacks'
     },
+    'SHA3-224': {
+      strength: 'Strong',
+      variant: 'default' as const,
+      description: 'Keccak-based SHA-3, an alternative design to SHA-2'
+    },
+    'SHA3-256': {
+      strength: 'Strong',
+      variant: 'default' as const,
+      description: 'SHA-3 counterpart to SHA-256, immune to length extension'
+    },
+    'SHA3-384': {
+      strength: 'Very Strong',
+      variant: 'default' as const,
+      description: 'SHA-3 with a 384-bit digest for higher security margins'
+    },
+    'SHA3-512': {
+      strength: 'Very Strong',
+      variant: 'default' as const,
+      description: 'SHA-3 with a 512-bit digest, maximum Keccak security level'
+    },
+    'SHAKE128': {
+      strength: 'Strong',
+      variant: 'default' as const,
+      description: 'Extendable-output SHA-3 function with 128-bit security'
+    },
+    'SHAKE256': {
+      strength: 'Very Strong',
+      variant: 'default' as const,
+      description: 'Extendable-output SHA-3 function with 256-bit security'
+    },
+    'BLAKE2b-512': {
+      strength: 'Very Strong',
+      variant: 'default' as const,
+      description: 'Fast 64-bit design used by b2sum and many package repositories'
+    },
+    'BLAKE2s-256': {
+      strength: 'Strong',
+      variant: 'default' as const,
+      description: 'BLAKE2 variant optimized for 32-bit and embedded platforms'
+    },
+    'BLAKE3': {
+      strength: 'Strong',
+      variant: 'default' as const,
+      description: 'Tree-structured successor to BLAKE2, very fast on large files'
+    },
     'MD5': { 
       strength: 'Broken', 
       variant: 'destructive' as const,
@@ -58,8 +113,74 @@ export const HashCalculator: React.FC = () => {
     },
   };
 
+  // SHAKE output length is entered in bits; empty means each function's default length
+  const hashOptions = (): HashOptions => {
+    if (!shakeOutputBits.trim()) {
+      return {};
+    }
+    const bits = Number(shakeOutputBits);
+    if (!Number.isInteger(bits) || bits <= 0 || bits % 8 !== 0) {
+      throw new Error('SHAKE output length must be a positive multiple of 8 bits');
+    }
+    return { outputLength: bits / 8 };
+  };
+
+  // Files are streamed through a worker in chunks; typed text is small enough to digest at once
+  const computeHashes = async (algorithms: HashAlgorithm[]): Promise<HashResult[]> => {
+    const timestamp = new Date().toISOString();
+    const options = hashOptions();
+    if (uploadedFile) {
+      const controller = new AbortController();
+      abortController.current = controller;
+      setProgress({ bytesProcessed: 0, totalBytes: uploadedFile.size });
+      try {
+        const digests = await DigitalSignatureSystem.calculateFileHashes(uploadedFile, algorithms, {
+          ...options,
+          onProgress: setProgress,
+          signal: controller.signal,
+        });
+        return algorithms.map(algorithm => ({
+          algorithm,
+          hash: digests[algorithm]!,
+          inputSize: uploadedFile.size,
+          timestamp,
+        }));
+      } finally {
+        abortController.current = null;
+        setProgress(null);
+      }
+    }
+
+    const inputSize = new TextEncoder().encode(inputText).length;
+    const results: HashResult[] = [];
+    for (const algorithm of algorithms) {
+      const hash = await DigitalSignatureSystem.calculateHash(inputText, algorithm, options);
+      results.push({ algorithm, hash, inputSize, timestamp });
+    }
+    return results;
+  };
+
+  const cancelHashing = () => {
+    abortController.current?.abort();
+  };
+
+  const reportFailure = (error: unknown, description: string) => {
+    if (error instanceof Error && error.message.includes('Hashing cancelled')) {
+      toast({
+        title: "Hashing Cancelled",
+        description: "The file hash calculation was stopped",
+      });
+      return;
+    }
+    toast({
+      title: "Calculation Failed",
+      description,
+      variant: "destructive",
+    });
+  };
+
   const calculateHash = async (algorithm?: HashAlgorithm) => {
-    if (!inputText.trim()) {
+    if (!hasInput) {
       toast({
         title: "Missing Input",
         description: "Please provide text or upload a file to hash",
@@ -72,13 +193,7 @@ export const HashCalculator: React.FC = () => {
     setIsProcessing(true);
     
     try {
-      const hash = await DigitalSignatureSystem.calculateHash(inputText, alg);
-      const result: HashResult = {
-        algorithm: alg,
-        hash,
-        inputSize: new TextEncoder().encode(inputText).length,
-        timestamp: new Date().toISOString(),
-      };
+      const [result] = await computeHashes([alg]);
       
       setHashResults(prev => [result, ...prev.filter(r => r.algorithm !== alg)]);
       
@@ -87,17 +202,13 @@ export const HashCalculator: React.FC = () => {
         description: `${alg} hash generated successfully`,
       });
     } catch (error) {
-      toast({
-        title: "Calculation Failed",
-        description: `Failed to calculate ${alg} hash: ${error}`,
-        variant: "destructive",
-      });
+      reportFailure(error, `Failed to calculate ${alg} hash: ${error}`);
     }
     setIsProcessing(false);
   };
 
   const calculateAllHashes = async () => {
-    if (!inputText.trim()) {
+    if (!hasInput) {
       toast({
         title: "Missing Input",
         description: "Please provide text or upload a file to hash",
@@ -107,19 +218,8 @@ export const HashCalculator: React.FC = () => {
     }
 
     setIsProcessing(true);
-    const algorithms: HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512', 'MD5'];
-    const results: HashResult[] = [];
-    
     try {
-      for (const algorithm of algorithms) {
-        const hash = await DigitalSignatureSystem.calculateHash(inputText, algorithm);
-        results.push({
-          algorithm,
-          hash,
-          inputSize: new TextEncoder().encode(inputText).length,
-          timestamp: new Date().toISOString(),
-        });
-      }
+      const results = await computeHashes(HASH_ALGORITHMS);
       
       setHashResults(results);
       
@@ -128,11 +228,7 @@ export const HashCalculator: React.FC = () => {
         description: "Generated hashes for all supported algorithms",
       });
     } catch (error) {
-      toast({
-        title: "Calculation Failed",
-        description: `Failed to calculate hashes: ${error}`,
-        variant: "destructive",
-      });
+      reportFailure(error, `Failed to calculate hashes: ${error}`);
     }
     setIsProcessing(false);
   };
@@ -140,14 +236,11 @@ export const HashCalculator: React.FC = () => {
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
+      // Keep only the File handle; its contents are streamed when hashing
       setUploadedFile(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        setInputText(content);
-      };
-      reader.readAsText(file);
+      setInputText('');
     }
+    event.target.value = '';
   };
 
   const copyHash = async (hash: string) => {
@@ -233,52 +326,129 @@ export const HashCalculator: React.FC = () => {
                 <Upload className="h-4 w-4 mr-2" />
                 Upload File
               </Button>
-              {uploadedFile && (
-                <Badge variant="secondary">{uploadedFile.name}</Badge>
-              )}
             </div>
-            <Textarea
-              id="hashInput"
-              placeholder="Enter text or upload a file to calculate its hash..."
-              value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
-              className="h-32 resize-none"
-            />
+            {uploadedFile ? (
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{uploadedFile.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(uploadedFile.size)}{uploadedFile.type && ` • ${uploadedFile.type}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setUploadedFile(null)}
+                  disabled={isProcessing}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Textarea
+                id="hashInput"
+                placeholder="Enter text or upload a file to calculate its hash..."
+                value={inputText}
+                onChange={(e) => setInputText(e.target.value)}
+                className="h-32 resize-none"
+              />
+            )}
           </div>
 
           <div className="flex items-center gap-4">
             <div className="space-y-2">
               <Label htmlFor="algorithm">Hash Algorithm</Label>
               <Select value={selectedAlgorithm} onValueChange={(value) => setSelectedAlgorithm(value as HashAlgorithm)}>
-                <SelectTrigger className="w-32">
+                <SelectTrigger className="w-40">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="SHA-256">SHA-256</SelectItem>
-                  <SelectItem value="SHA-384">SHA-384</SelectItem>
-                  <SelectItem value="SHA-512">SHA-512</SelectItem>
-                  <SelectItem value="SHA-1">SHA-1</SelectItem>
-                  <SelectItem value="MD5">MD5</SelectItem>
+                  <SelectGroup>
+                    <SelectLabel>SHA-2</SelectLabel>
+                    <SelectItem value="SHA-256">SHA-256</SelectItem>
+                    <SelectItem value="SHA-384">SHA-384</SelectItem>
+                    <SelectItem value="SHA-512">SHA-512</SelectItem>
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>SHA-3</SelectLabel>
+                    <SelectItem value="SHA3-224">SHA3-224</SelectItem>
+                    <SelectItem value="SHA3-256">SHA3-256</SelectItem>
+                    <SelectItem value="SHA3-384">SHA3-384</SelectItem>
+                    <SelectItem value="SHA3-512">SHA3-512</SelectItem>
+                    <SelectItem value="SHAKE128">SHAKE128</SelectItem>
+                    <SelectItem value="SHAKE256">SHAKE256</SelectItem>
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>BLAKE</SelectLabel>
+                    <SelectItem value="BLAKE2b-512">BLAKE2b-512</SelectItem>
+                    <SelectItem value="BLAKE2s-256">BLAKE2s-256</SelectItem>
+                    <SelectItem value="BLAKE3">BLAKE3</SelectItem>
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Legacy</SelectLabel>
+                    <SelectItem value="SHA-1">SHA-1</SelectItem>
+                    <SelectItem value="MD5">MD5</SelectItem>
+                  </SelectGroup>
                 </SelectContent>
               </Select>
             </div>
+            {isExtendableOutput(selectedAlgorithm) && (
+              <div className="space-y-2">
+                <Label htmlFor="shakeOutputBits">Output Length (bits)</Label>
+                <Input
+                  id="shakeOutputBits"
+                  type="number"
+                  min={8}
+                  step={8}
+                  placeholder={`${DEFAULT_SHAKE_LENGTHS[selectedAlgorithm] * 8}`}
+                  value={shakeOutputBits}
+                  onChange={(e) => setShakeOutputBits(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+            )}
             <div className="flex gap-2 ml-auto">
               <Button 
                 onClick={() => calculateHash()}
-                disabled={isProcessing || !inputText.trim()}
+                disabled={isProcessing || !hasInput}
               >
                 {isProcessing ? 'Calculating...' : `Calculate ${selectedAlgorithm}`}
               </Button>
               <Button 
                 variant="outline"
                 onClick={calculateAllHashes}
-                disabled={isProcessing || !inputText.trim()}
+                disabled={isProcessing || !hasInput}
               >
                 Calculate All
               </Button>
             </div>
           </div>
 
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {formatFileSize(progress.bytesProcessed)} of {formatFileSize(progress.totalBytes)}
+                </span>
+                <span>
+                  {progress.totalBytes > 0 ? Math.floor((progress.bytesProcessed / progress.totalBytes) * 100) : 100}%
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Progress
+                  value={progress.totalBytes > 0 ? (progress.bytesProcessed / progress.totalBytes) * 100 : 100}
+                  className="flex-1"
+                />
+                <Button variant="outline" size="sm" onClick={cancelHashing}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Algorithm Info */}
           <Alert variant={algorithmInfo[selectedAlgorithm].variant}>
             <Info className="h-4 w-4" />
@@ -316,9 +486,10 @@ export const HashCalculator: React.FC = () => {
                     <div className="flex items-center gap-2">
                       <Badge variant={algorithmInfo[result.algorithm].variant}>
                         {result.algorithm}
+                        {isExtendableOutput(result.algorithm) && ` (${result.hash.length * 4} bits)`}
                       </Badge>
                       <span className="text-sm text-muted-foreground">
-                        {result.inputSize} bytes
+                        {formatFileSize(result.inputSize)}
                       </span>
                     </div>
                     <span className="text-xs text-muted-foreground">
@@ -420,6 +591,9 @@ export const HashCalculator: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Checksum Manifests */}
+      <ChecksumManifestPanel />
+
       {/* Hash Information */}
       <Card>
         <CardHeader>
@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Upload, Copy, Check, AlertTriangle, ShieldCheck, Shuffle, X } from 'lucide-react';
+import { DigitalSignatureSystem, HmacAlgorithm, MacKeyEncoding } from '@/lib/crypto';
+import { HMAC_ALGORITHMS, decodeMacKey, generateMacKey } from '@/lib/hmac';
+import { toBase64, toHex } from '@/lib/encoding';
+import { formatFileSize } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+type MacOutputEncoding = 'hex' | 'base64';
+
+interface LoadedMessage {
+  name: string;
+  size: number;
+  data: ArrayBuffer;
+}
+
+interface HmacResult {
+  algorithm: HmacAlgorithm;
+  mac: ArrayBuffer;
+  timestamp: string;
+}
+
+export const HmacCalculator: React.FC = () => {
+  const [message, setMessage] = useState('');
+  const [messageFile, setMessageFile] = useState<LoadedMessage | null>(null);
+  const [algorithm, setAlgorithm] = useState<HmacAlgorithm>('SHA-256');
+  const [key, setKey] = useState('');
+  const [keyEncoding, setKeyEncoding] = useState<MacKeyEncoding>('text');
+  const [outputEncoding, setOutputEncoding] = useState<MacOutputEncoding>('hex');
+  const [hmacResult, setHmacResult] = useState<HmacResult | null>(null);
+  const [expectedMac, setExpectedMac] = useState('');
+  const [verificationResult, setVerificationResult] = useState<boolean | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  // Webhook payloads must be MACed byte for byte, so uploaded bodies are read as raw bytes
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setMessageFile({ name: file.name, size: file.size, data: e.target?.result as ArrayBuffer });
+        setHmacResult(null);
+        setVerificationResult(null);
+      };
+      reader.readAsArrayBuffer(file);
+    }
+    event.target.value = '';
+  };
+
+  const generateKey = () => {
+    const randomKey = generateMacKey(algorithm);
+    setKey(toHex(randomKey));
+    setKeyEncoding('hex');
+    toast({
+      title: "Key Generated",
+      description: `Random ${randomKey.length * 8}-bit key created for HMAC-${algorithm}`,
+    });
+  };
+
+  const formatMac = (mac: ArrayBuffer) => outputEncoding === 'hex' ? toHex(mac) : toBase64(mac);
+
+  const calculateHmac = async () => {
+    if (!key) {
+      toast({
+        title: "Missing Key",
+        description: "Please enter or generate an HMAC key",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const mac = await DigitalSignatureSystem.calculateHmac(
+        messageFile?.data ?? message,
+        decodeMacKey(key, keyEncoding),
+        algorithm
+      );
+      setHmacResult({ algorithm, mac, timestamp: new Date().toISOString() });
+      toast({
+        title: "HMAC Calculated",
+        description: `HMAC-${algorithm} generated successfully`,
+      });
+    } catch (error) {
+      toast({
+        title: "Calculation Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const verifyHmac = async () => {
+    if (!key || !expectedMac.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide the key and the MAC to verify",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const isValid = await DigitalSignatureSystem.verifyHmac(
+        messageFile?.data ?? message,
+        decodeMacKey(key, keyEncoding),
+        expectedMac,
+        algorithm
+      );
+      setVerificationResult(isValid);
+      toast({
+        title: isValid ? "HMAC Valid" : "HMAC Invalid",
+        description: isValid
+          ? "The message is authentic and unmodified"
+          : "The MAC does not match this message and key",
+        variant: isValid ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    }
+    setIsProcessing(false);
+  };
+
+  const copyMac = async () => {
+    if (!hmacResult) return;
+    try {
+      await navigator.clipboard.writeText(formatMac(hmacResult.mac));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+      toast({
+        title: "Copied",
+        description: "HMAC copied to clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy HMAC",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* HMAC Generation */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            HMAC Generator
+          </CardTitle>
+          <CardDescription>
+            Compute keyed message authentication codes, e.g. to check webhook signatures
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hmacMessage">Message</Label>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="file"
+                onChange={handleFileUpload}
+                className="hidden"
+                id="file-upload-hmac"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => document.getElementById('file-upload-hmac')?.click()}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Payload
+              </Button>
+            </div>
+            {messageFile ? (
+              <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+                <div>
+                  <span className="font-medium break-all">{messageFile.name}</span>
+                  <div className="text-muted-foreground">{formatFileSize(messageFile.size)}</div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setMessageFile(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Textarea
+                id="hmacMessage"
+                placeholder="Paste the raw request body or message to authenticate..."
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                className="h-32 resize-none font-mono text-xs"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="hmacKey">Secret Key</Label>
+            <div className="flex gap-2">
+              <Input
+                id="hmacKey"
+                placeholder={keyEncoding === 'text' ? 'Webhook secret...' : `Key as ${keyEncoding}...`}
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                className="font-mono text-xs flex-1"
+              />
+              <Select value={keyEncoding} onValueChange={(value) => setKeyEncoding(value as MacKeyEncoding)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">Text</SelectItem>
+                  <SelectItem value="hex">Hex</SelectItem>
+                  <SelectItem value="base64">Base64</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={generateKey}>
+                <Shuffle className="h-4 w-4 mr-2" />
+                Random
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Algorithm</Label>
+              <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as HmacAlgorithm)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HMAC_ALGORITHMS.map(hash => (
+                    <SelectItem key={hash} value={hash}>HMAC-{hash}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Output</Label>
+              <Select value={outputEncoding} onValueChange={(value) => setOutputEncoding(value as MacOutputEncoding)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hex">Hex</SelectItem>
+                  <SelectItem value="base64">Base64</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={calculateHmac}
+              disabled={isProcessing || !key}
+              className="ml-auto"
+            >
+              {isProcessing ? 'Calculating...' : `Calculate HMAC-${algorithm}`}
+            </Button>
+          </div>
+
+          {algorithm === 'SHA-1' && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                HMAC-SHA-1 is still secure as a MAC, but prefer HMAC-SHA-256 for new integrations
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {hmacResult && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Result</Label>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">HMAC-{hmacResult.algorithm}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(hmacResult.timestamp).toLocaleString()}
+                  </span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Textarea
+                  value={formatMac(hmacResult.mac)}
+                  readOnly
+                  className="font-mono text-xs h-16 resize-none flex-1"
+                />
+                <Button variant="outline" size="sm" onClick={copyMac}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* HMAC Verification */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            HMAC Verification
+          </CardTitle>
+          <CardDescription>
+            Check a received MAC against the message and key above using a constant-time comparison
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="expectedMac">Received MAC</Label>
+            <Input
+              id="expectedMac"
+              placeholder="Hex or base64, e.g. sha256=5d41402a... from X-Hub-Signature-256"
+              value={expectedMac}
+              onChange={(e) => setExpectedMac(e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <Button
+            onClick={verifyHmac}
+            disabled={isProcessing || !key || !expectedMac.trim()}
+            className="w-full"
+          >
+            Verify HMAC-{algorithm}
+          </Button>
+
+          {verificationResult !== null && (
+            <Alert variant={verificationResult ? "default" : "destructive"}>
+              {verificationResult ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <AlertTriangle className="h-4 w-4" />
+              )}
+              <AlertDescription>
+                <div className="flex items-center justify-between">
+                  <span>
+                    {verificationResult
+                      ? "✅ MAC is valid - message is authentic"
+                      : "❌ MAC does not match - wrong key, algorithm or modified message"
+                    }
+                  </span>
+                  <Badge variant={verificationResult ? "default" : "destructive"}>
+                    {verificationResult ? "VALID" : "INVALID"}
+                  </Badge>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export interface PassphraseDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  // Ask for the passphrase twice, when it is being chosen rather than entered
+  confirm?: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export const PassphraseDialog: React.FC<PassphraseDialogProps> = ({
+  open,
+  title,
+  description,
+  confirm = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  // Never keep a passphrase around between prompts
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+  }, [open]);
+
+  const mismatch = confirm && confirmation !== '' && confirmation !== passphrase;
+  const canSubmit = passphrase !== '' && (!confirm || confirmation === passphrase);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmit) {
+      // Cleared here too, as a follow-up prompt may reuse the open dialog
+      setPassphrase('');
+      setConfirmation('');
+      onSubmit(passphrase);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              autoComplete={confirm ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </div>
+          {confirm && (
+            <div className="space-y-2">
+              <Label htmlFor="passphraseConfirm">Confirm Passphrase</Label>
+              <Input
+                id="passphraseConfirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {mismatch && <p className="text-sm text-destructive">Passphrases do not match</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              OK
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock, LockOpen, Vault, KeyRound, Timer } from 'lucide-react';
+import { changeVaultPassword, createVault, lockVault, setVaultAutoLock, unlockVault } from '@/lib/vault';
+import { keystoreVaultMigration } from '@/lib/keystore';
+import { PassphraseDialog } from './PassphraseDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+import { useKeystore } from '@/hooks/use-keystore';
+import { usePassphrasePrompt } from '@/hooks/use-passphrase-prompt';
+
+const AUTO_LOCK_OPTIONS: { value: string; label: string }[] = [
+  { value: '1', label: '1 minute' },
+  { value: '5', label: '5 minutes' },
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '0', label: 'Never' },
+];
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+export const VaultControls: React.FC = () => {
+  const [isBusy, setIsBusy] = useState(false);
+  const { status, info, error } = useVault();
+  const { keys } = useKeystore();
+  const { requestPassphrase, dialogProps } = usePassphrasePrompt();
+  const { toast } = useToast();
+
+  const autoLockMinutes = info?.autoLockMinutes ?? 0;
+
+  // Lock once the user has been inactive for the configured time
+  useEffect(() => {
+    if (status !== 'unlocked' || autoLockMinutes === 0) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        lockVault();
+        toast({
+          title: "Vault Locked",
+          description: `Locked after ${autoLockMinutes} minute${autoLockMinutes === 1 ? '' : 's'} of inactivity`,
+        });
+      }, autoLockMinutes * 60 * 1000);
+    };
+
+    schedule();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, schedule, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, schedule));
+    };
+  }, [status, autoLockMinutes, toast]);
+
+  // Key derivation takes a moment, so every action shows as busy until it settles
+  const run = async (action: () => Promise<void>, success: { title: string; description: string }) => {
+    setIsBusy(true);
+    try {
+      await action();
+      toast(success);
+    } catch (err) {
+      toast({
+        title: "Vault Error",
+        description: `${err}`,
+        variant: "destructive",
+      });
+    }
+    setIsBusy(false);
+  };
+
+  const create = async () => {
+    // Non-extractable keys have no material to encrypt, so they stay usable without the master password
+    const nonExtractable = keys.filter(stored => stored.privateKey && !stored.extractable).length;
+    const password = await requestPassphrase({
+      title: 'Create Vault',
+      description: 'Choose a master password. Stored keys, certificates, timestamps and signature history will be encrypted with it; it cannot be recovered if forgotten.' +
+        (nonExtractable > 0
+          ? ` ${nonExtractable} non-extractable private key${nonExtractable === 1 ? '' : 's'} cannot be encrypted: only the labels are, and the keys stay in browser storage where they can sign without the password, though they can never be exported.`
+          : ''),
+      confirm: true,
+    });
+    if (password === null) return;
+    await run(async () => {
+      const { records, handles } = await keystoreVaultMigration();
+      await createVault(password, records, handles);
+    }, {
+      title: "Vault Created",
+      description: "Stored keys were moved into the vault and everything you store is now encrypted at rest",
+    });
+  };
+
+  const unlock = async () => {
+    const password = await requestPassphrase({
+      title: 'Unlock Vault',
+      description: 'Enter the master password',
+    });
+    if (password === null) return;
+    await run(() => unlockVault(password), {
+      title: "Vault Unlocked",
+      description: "Stored keys, certificates, timestamps and signatures are available",
+    });
+  };
+
+  const changePassword = async () => {
+    const currentPassword = await requestPassphrase({
+      title: 'Change Master Password',
+      description: 'Enter the current master password',
+    });
+    if (currentPassword === null) return;
+    const newPassword = await requestPassphrase({
+      title: 'Change Master Password',
+      description: 'Choose the new master password; every record is re-encrypted with it',
+      confirm: true,
+    });
+    if (newPassword === null) return;
+    await run(() => changeVaultPassword(currentPassword, newPassword), {
+      title: "Password Changed",
+      description: "The vault has been re-encrypted with the new master password",
+    });
+  };
+
+  const updateAutoLock = (value: string) => {
+    setVaultAutoLock(parseInt(value, 10)).catch(err => {
+      toast({
+        title: "Vault Error",
+        description: `${err}`,
+        variant: "destructive",
+      });
+    });
+  };
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground mt-4">Vault unavailable: {error}</p>;
+  }
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mt-4">
+      {status === 'none' && (
+        <Button variant="outline" size="sm" onClick={create} disabled={isBusy}>
+          <Vault className="h-4 w-4 mr-2" />
+          {isBusy ? 'Creating...' : 'Create Vault'}
+        </Button>
+      )}
+
+      {status === 'locked' && (
+        <>
+          <Badge variant="outline" className="flex items-center gap-1">
+            <Lock className="h-3 w-3" />
+            Vault Locked
+          </Badge>
+          <Button variant="outline" size="sm" onClick={unlock} disabled={isBusy}>
+            <LockOpen className="h-4 w-4 mr-2" />
+            {isBusy ? 'Unlocking...' : 'Unlock'}
+          </Button>
+        </>
+      )}
+
+      {status === 'unlocked' && (
+        <>
+          <Badge variant="default" className="flex items-center gap-1">
+            <LockOpen className="h-3 w-3" />
+            Vault Unlocked
+          </Badge>
+          <Button variant="outline" size="sm" onClick={lockVault}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock
+          </Button>
+          <Button variant="outline" size="sm" onClick={changePassword} disabled={isBusy}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            {isBusy ? 'Re-encrypting...' : 'Change Password'}
+          </Button>
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Timer className="h-4 w-4" />
+            Auto-lock
+            <Select value={autoLockMinutes.toString()} onValueChange={updateAutoLock}>
+              <SelectTrigger className="w-32 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      <PassphraseDialog {...dialogProps} />
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { CertificateAuthority, authorityEvents, listLocalAuthorities } from '@/lib/ca';
+
+// Certificate authorities created in this session, kept current across every component that uses the hook
+export function useAuthorities() {
+  const [authorities, setAuthorities] = useState<CertificateAuthority[]>(listLocalAuthorities);
+
+  useEffect(() => {
+    const update = () => setAuthorities(listLocalAuthorities());
+    // Catches CAs registered between the first render and subscribing
+    update();
+    authorityEvents.addEventListener('change', update);
+    return () => authorityEvents.removeEventListener('change', update);
+  }, []);
+
+  return authorities;
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { StoredKey, keystoreEvents, listStoredKeys } from '@/lib/keystore';
+
+// Keys in the persistent keystore, kept current across every component that uses the hook. The keystore
+// relays vault changes, so locking the vault reloads the list, which fails and drops the unsealed keys
+export function useKeystore() {
+  const [keys, setKeys] = useState<StoredKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    // Only the latest load may update the list, so keys read before a lock cannot arrive after it
+    let latest = 0;
+    const load = async () => {
+      const request = ++latest;
+      try {
+        const stored = await listStoredKeys();
+        if (active && request === latest) {
+          setKeys(stored);
+          setError(null);
+        }
+      } catch (err) {
+        if (active && request === latest) {
+          setKeys([]);
+          setError(`${err}`);
+        }
+      }
+      if (active) {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    keystoreEvents.addEventListener('change', load);
+    return () => {
+      active = false;
+      keystoreEvents.removeEventListener('change', load);
+    };
+  }, []);
+
+  return { keys, isLoading, error };
+}
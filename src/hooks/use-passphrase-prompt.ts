@@ -0,0 +1,32 @@
+import { useState } from 'react';
+import type { PassphraseDialogProps } from '@/components/PassphraseDialog';
+
+export type PassphrasePrompt = Pick<PassphraseDialogProps, 'title' | 'description' | 'confirm'>;
+
+interface PendingPrompt extends PassphrasePrompt {
+  resolve: (passphrase: string | null) => void;
+}
+
+// Await a passphrase from a <PassphraseDialog {...dialogProps} />; resolves to null when cancelled
+export function usePassphrasePrompt() {
+  const [pending, setPending] = useState<PendingPrompt | null>(null);
+
+  const requestPassphrase = (prompt: PassphrasePrompt) =>
+    new Promise<string | null>(resolve => setPending({ ...prompt, resolve }));
+
+  const settle = (passphrase: string | null) => {
+    pending?.resolve(passphrase);
+    setPending(null);
+  };
+
+  const dialogProps: PassphraseDialogProps = {
+    open: pending !== null,
+    title: pending?.title ?? '',
+    description: pending?.description ?? '',
+    confirm: pending?.confirm,
+    onSubmit: settle,
+    onCancel: () => settle(null),
+  };
+
+  return { requestPassphrase, dialogProps };
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  VaultInfo,
+  VaultStatus,
+  getVaultInfo,
+  getVaultRecord,
+  getVaultStatus,
+  isVaultUnlocked,
+  putVaultRecord,
+  vaultEvents,
+} from '@/lib/vault';
+import { useToast } from '@/hooks/use-toast';
+
+const DOCUMENT_COLLECTION = 'documents';
+
+// Vault status, kept current as the vault is created, unlocked and locked; null until known
+export function useVault() {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [info, setInfo] = useState<VaultInfo | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      try {
+        const [currentStatus, currentInfo] = await Promise.all([getVaultStatus(), getVaultInfo()]);
+        if (active) {
+          setStatus(currentStatus);
+          setInfo(currentInfo);
+          setError(null);
+        }
+      } catch (err) {
+        if (active) {
+          setError(`${err}`);
+        }
+      }
+    };
+
+    load();
+    vaultEvents.addEventListener('change', load);
+    return () => {
+      active = false;
+      vaultEvents.removeEventListener('change', load);
+    };
+  }, []);
+
+  return { status, info, error };
+}
+
+// Persist a component's state as one sealed vault document: restored when the vault is unlocked,
+// saved whenever it changes while unlocked, and cleared (restore(null)) when the vault is locked
+export function useVaultDocument<T>(name: string, value: T, restore: (stored: T | null) => void) {
+  const { status } = useVault();
+  const { toast } = useToast();
+  const [loaded, setLoaded] = useState(false);
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  useEffect(() => {
+    let active = true;
+    if (status === 'unlocked') {
+      getVaultRecord<T>(DOCUMENT_COLLECTION, name).then(
+        stored => {
+          if (active) {
+            if (stored !== undefined) {
+              restoreRef.current(stored);
+            }
+            setLoaded(true);
+          }
+        },
+        error => toast({ title: "Vault Error", description: `Failed to read ${name}: ${error}`, variant: "destructive" })
+      );
+    } else {
+      setLoaded(false);
+      if (status === 'locked') {
+        restoreRef.current(null);
+      }
+    }
+    return () => {
+      active = false;
+    };
+  }, [status, name, toast]);
+
+  useEffect(() => {
+    if (loaded && isVaultUnlocked()) {
+      putVaultRecord(DOCUMENT_COLLECTION, name, value).catch(error =>
+        toast({ title: "Vault Error", description: `Failed to save ${name}: ${error}`, variant: "destructive" })
+      );
+    }
+  }, [loaded, name, value, toast]);
+}
@@ -0,0 +1,399 @@
+// Minimal ASN.1 DER encoder and decoder for X.509 and related structures
+import { concatBytes } from './encoding';
+
+export const TagClass = {
+  UNIVERSAL: 0,
+  APPLICATION: 1,
+  CONTEXT: 2,
+  PRIVATE: 3,
+} as const;
+
+export const Tag = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  ENUMERATED: 0x0a,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x10,
+  SET: 0x11,
+  PRINTABLE_STRING: 0x13,
+  T61_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  UNIVERSAL_STRING: 0x1c,
+  BMP_STRING: 0x1e,
+} as const;
+
+export interface ASN1Node {
+  tagClass: number;
+  constructed: boolean;
+  tag: number;
+  // Content octets (without the identifier and length)
+  value: Uint8Array;
+  // Complete TLV encoding, needed e.g. to verify signatures over TBS structures
+  raw: Uint8Array;
+  children: ASN1Node[];
+}
+
+export class DER {
+  // Encode a complete TLV from an identifier octet and content octets
+  static tlv(identifier: number, contents: Uint8Array): Uint8Array {
+    return concatBytes(new Uint8Array([identifier]), this.encodeLength(contents.length), contents);
+  }
+
+  private static encodeLength(length: number): Uint8Array {
+    if (length < 0x80) {
+      return new Uint8Array([length]);
+    }
+    const bytes: number[] = [];
+    while (length > 0) {
+      bytes.unshift(length & 0xff);
+      length = Math.floor(length / 256);
+    }
+    return new Uint8Array([0x80 | bytes.length, ...bytes]);
+  }
+
+  static sequence(...items: Uint8Array[]): Uint8Array {
+    return this.tlv(0x20 | Tag.SEQUENCE, concatBytes(...items));
+  }
+
+  // DER requires SET OF elements to be sorted by their encodings
+  static set(...items: Uint8Array[]): Uint8Array {
+    const sorted = [...items].sort((a, b) => {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+      }
+      return a.length - b.length;
+    });
+    return this.tlv(0x20 | Tag.SET, concatBytes(...sorted));
+  }
+
+  static boolean(value: boolean): Uint8Array {
+    return this.tlv(Tag.BOOLEAN, new Uint8Array([value ? 0xff : 0x00]));
+  }
+
+  // Encode a non-negative integer given as a number, bigint or big-endian magnitude
+  static integer(value: number | bigint | Uint8Array): Uint8Array {
+    return this.tlv(Tag.INTEGER, this.integerContents(value));
+  }
+
+  static enumerated(value: number): Uint8Array {
+    return this.tlv(Tag.ENUMERATED, this.integerContents(value));
+  }
+
+  private static integerContents(value: number | bigint | Uint8Array): Uint8Array {
+    let bytes: Uint8Array;
+    if (value instanceof Uint8Array) {
+      bytes = value;
+    } else {
+      let n = BigInt(value);
+      if (n < 0n) {
+        throw new Error('Negative integers are not supported');
+      }
+      const digits: number[] = [];
+      do {
+        digits.unshift(Number(n & 0xffn));
+        n >>= 8n;
+      } while (n > 0n);
+      bytes = new Uint8Array(digits);
+    }
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) start++;
+    bytes = bytes.subarray(start);
+    if (bytes.length === 0) {
+      return new Uint8Array([0]);
+    }
+    return bytes[0] & 0x80 ? concatBytes(new Uint8Array([0]), bytes) : bytes;
+  }
+
+  static null(): Uint8Array {
+    return new Uint8Array([Tag.NULL, 0x00]);
+  }
+
+  static oid(dotted: string): Uint8Array {
+    const arcs = dotted.split('.').map(arc => BigInt(arc));
+    if (arcs.length < 2) {
+      throw new Error(`Invalid object identifier: ${dotted}`);
+    }
+    const bytes: number[] = [];
+    const components = [arcs[0] * 40n + arcs[1], ...arcs.slice(2)];
+    for (let component of components) {
+      const chunk: number[] = [Number(component & 0x7fn)];
+      component >>= 7n;
+      while (component > 0n) {
+        chunk.unshift(Number(component & 0x7fn) | 0x80);
+        component >>= 7n;
+      }
+      bytes.push(...chunk);
+    }
+    return this.tlv(Tag.OID, new Uint8Array(bytes));
+  }
+
+  static bitString(bytes: Uint8Array, unusedBits: number = 0): Uint8Array {
+    return this.tlv(Tag.BIT_STRING, concatBytes(new Uint8Array([unusedBits]), bytes));
+  }
+
+  // Encode a NamedBitList (e.g. KeyUsage) with trailing zero bits removed
+  static namedBits(bits: number[]): Uint8Array {
+    if (bits.length === 0) {
+      return this.bitString(new Uint8Array(0));
+    }
+    const highest = Math.max(...bits);
+    const bytes = new Uint8Array(Math.floor(highest / 8) + 1);
+    for (const bit of bits) {
+      bytes[Math.floor(bit / 8)] |= 0x80 >> (bit % 8);
+    }
+    return this.bitString(bytes, 7 - (highest % 8));
+  }
+
+  static octetString(bytes: Uint8Array): Uint8Array {
+    return this.tlv(Tag.OCTET_STRING, bytes);
+  }
+
+  static utf8String(value: string): Uint8Array {
+    return this.tlv(Tag.UTF8_STRING, new TextEncoder().encode(value));
+  }
+
+  static printableString(value: string): Uint8Array {
+    return this.tlv(Tag.PRINTABLE_STRING, new TextEncoder().encode(value));
+  }
+
+  static ia5String(value: string): Uint8Array {
+    return this.tlv(Tag.IA5_STRING, new TextEncoder().encode(value));
+  }
+
+  static utcTime(date: Date): Uint8Array {
+    const iso = date.toISOString();
+    const value = iso.substring(2, 4) + iso.substring(5, 7) + iso.substring(8, 10)
+      + iso.substring(11, 13) + iso.substring(14, 16) + iso.substring(17, 19) + 'Z';
+    return this.tlv(Tag.UTC_TIME, new TextEncoder().encode(value));
+  }
+
+  static generalizedTime(date: Date): Uint8Array {
+    const iso = date.toISOString();
+    const value = iso.substring(0, 4) + iso.substring(5, 7) + iso.substring(8, 10)
+      + iso.substring(11, 13) + iso.substring(14, 16) + iso.substring(17, 19) + 'Z';
+    return this.tlv(Tag.GENERALIZED_TIME, new TextEncoder().encode(value));
+  }
+
+  // RFC 5280 Time: UTCTime through 2049, GeneralizedTime afterwards
+  static time(date: Date): Uint8Array {
+    return date.getUTCFullYear() < 2050 ? this.utcTime(date) : this.generalizedTime(date);
+  }
+
+  // [n] EXPLICIT wrapper around a complete encoding
+  static explicit(tagNumber: number, inner: Uint8Array): Uint8Array {
+    return this.tlv(0xa0 | tagNumber, inner);
+  }
+
+  // [n] IMPLICIT with raw content octets
+  static implicit(tagNumber: number, contents: Uint8Array, constructed: boolean = false): Uint8Array {
+    return this.tlv((constructed ? 0xa0 : 0x80) | tagNumber, contents);
+  }
+
+  // Decode a single DER element; trailing data is rejected
+  static decode(input: ArrayBuffer | Uint8Array): ASN1Node {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    const { node, end } = this.decodeAt(bytes, 0);
+    if (end !== bytes.length) {
+      throw new Error('Unexpected data after DER element');
+    }
+    return node;
+  }
+
+  private static decodeAt(bytes: Uint8Array, offset: number): { node: ASN1Node; end: number } {
+    if (offset + 2 > bytes.length) {
+      throw new Error('Truncated DER element');
+    }
+    const identifier = bytes[offset];
+    const tagClass = identifier >> 6;
+    const constructed = (identifier & 0x20) !== 0;
+    let tag = identifier & 0x1f;
+    let position = offset + 1;
+    if (tag === 0x1f) {
+      tag = 0;
+      let byte: number;
+      do {
+        if (position >= bytes.length) throw new Error('Truncated DER tag');
+        byte = bytes[position++];
+        tag = tag * 128 + (byte & 0x7f);
+      } while (byte & 0x80);
+    }
+
+    if (position >= bytes.length) {
+      throw new Error('Truncated DER length');
+    }
+    let length = bytes[position++];
+    if (length & 0x80) {
+      const count = length & 0x7f;
+      if (count === 0) {
+        throw new Error('Indefinite length is not allowed in DER');
+      }
+      if (count > 4 || position + count > bytes.length) {
+        throw new Error('Invalid DER length');
+      }
+      length = 0;
+      for (let i = 0; i < count; i++) {
+        length = length * 256 + bytes[position++];
+      }
+    }
+
+    const end = position + length;
+    if (end > bytes.length) {
+      throw new Error('DER element exceeds available data');
+    }
+    const value = bytes.subarray(position, end);
+    const children: ASN1Node[] = [];
+    if (constructed) {
+      let childOffset = position;
+      while (childOffset < end) {
+        const child = this.decodeAt(bytes.subarray(0, end), childOffset);
+        children.push(child.node);
+        childOffset = child.end;
+      }
+    }
+
+    return {
+      node: { tagClass, constructed, tag, value, raw: bytes.subarray(offset, end), children },
+      end,
+    };
+  }
+
+  static decodeOid(node: ASN1Node): string {
+    this.expect(node, Tag.OID);
+    const arcs: bigint[] = [];
+    let current = 0n;
+    for (const byte of node.value) {
+      current = (current << 7n) | BigInt(byte & 0x7f);
+      if (!(byte & 0x80)) {
+        arcs.push(current);
+        current = 0n;
+      }
+    }
+    if (arcs.length === 0) {
+      throw new Error('Empty object identifier');
+    }
+    const first = arcs[0] < 80n ? arcs[0] / 40n : 2n;
+    const second = arcs[0] - first * 40n;
+    return [first, second, ...arcs.slice(1)].join('.');
+  }
+
+  // Return the magnitude of an INTEGER without the sign padding byte
+  static decodeIntegerBytes(node: ASN1Node): Uint8Array {
+    if (node.tagClass === TagClass.UNIVERSAL) {
+      this.expect(node, Tag.INTEGER);
+    }
+    let start = 0;
+    while (start < node.value.length - 1 && node.value[start] === 0) start++;
+    return node.value.subarray(start);
+  }
+
+  static decodeInteger(node: ASN1Node): bigint {
+    let result = 0n;
+    for (const byte of this.decodeIntegerBytes(node)) {
+      result = (result << 8n) | BigInt(byte);
+    }
+    return result;
+  }
+
+  static decodeEnumerated(node: ASN1Node): number {
+    this.expect(node, Tag.ENUMERATED);
+    return node.value.reduce((result, byte) => result * 256 + byte, 0);
+  }
+
+  static decodeBitString(node: ASN1Node): { bytes: Uint8Array; unusedBits: number } {
+    this.expect(node, Tag.BIT_STRING);
+    if (node.value.length === 0) {
+      throw new Error('Empty BIT STRING');
+    }
+    return { bytes: node.value.subarray(1), unusedBits: node.value[0] };
+  }
+
+  // Bit positions set in a NamedBitList
+  static decodeNamedBits(node: ASN1Node): number[] {
+    const { bytes, unusedBits } = this.decodeBitString(node);
+    const bits: number[] = [];
+    for (let i = 0; i < bytes.length * 8 - unusedBits; i++) {
+      if (bytes[Math.floor(i / 8)] & (0x80 >> (i % 8))) {
+        bits.push(i);
+      }
+    }
+    return bits;
+  }
+
+  static decodeBoolean(node: ASN1Node): boolean {
+    this.expect(node, Tag.BOOLEAN);
+    return node.value[0] !== 0;
+  }
+
+  static decodeString(node: ASN1Node): string {
+    switch (node.tag) {
+      case Tag.BMP_STRING: {
+        let result = '';
+        for (let i = 0; i + 1 < node.value.length; i += 2) {
+          result += String.fromCharCode((node.value[i] << 8) | node.value[i + 1]);
+        }
+        return result;
+      }
+      case Tag.UNIVERSAL_STRING: {
+        let result = '';
+        for (let i = 0; i + 3 < node.value.length; i += 4) {
+          result += String.fromCodePoint(
+            ((node.value[i] << 24) | (node.value[i + 1] << 16) | (node.value[i + 2] << 8) | node.value[i + 3]) >>> 0
+          );
+        }
+        return result;
+      }
+      case Tag.T61_STRING:
+        return String.fromCharCode(...node.value);
+      default:
+        return new TextDecoder().decode(node.value);
+    }
+  }
+
+  static decodeTime(node: ASN1Node): Date {
+    const text = new TextDecoder().decode(node.value);
+    let match: RegExpMatchArray | null;
+    if (node.tag === Tag.UTC_TIME) {
+      match = text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+      if (match) {
+        const year = parseInt(match[1], 10);
+        match[1] = String(year >= 50 ? 1900 + year : 2000 + year);
+      }
+    } else if (node.tag === Tag.GENERALIZED_TIME) {
+      match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?Z$/);
+    } else {
+      throw new Error(`Expected a time value but found tag ${node.tag}`);
+    }
+    if (!match) {
+      throw new Error(`Invalid time value: ${text}`);
+    }
+    const millis = match[7] ? parseInt(match[7].padEnd(3, '0').substring(0, 3), 10) : 0;
+    return new Date(Date.UTC(
+      parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10),
+      parseInt(match[4], 10), parseInt(match[5], 10), parseInt(match[6], 10), millis
+    ));
+  }
+
+  // Assert a universal tag, throwing a descriptive error otherwise
+  static expect(node: ASN1Node | undefined, tag: number, what?: string): ASN1Node {
+    if (!node || node.tagClass !== TagClass.UNIVERSAL || node.tag !== tag) {
+      throw new Error(`Malformed ${what ?? 'structure'}: expected ${this.tagName(tag)}`);
+    }
+    return node;
+  }
+
+  // Find a context-specific [n] child
+  static contextChild(node: ASN1Node, tagNumber: number): ASN1Node | undefined {
+    return node.children.find(child => child.tagClass === TagClass.CONTEXT && child.tag === tagNumber);
+  }
+
+  private static tagName(tag: number): string {
+    const entry = Object.entries(Tag).find(([, value]) => value === tag);
+    return entry ? entry[0].replace(/_/g, ' ') : `tag ${tag}`;
+  }
+}
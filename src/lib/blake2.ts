@@ -0,0 +1,218 @@
+// BLAKE2b and BLAKE2s (RFC 7693), unkeyed, as incremental hashes
+import { IncrementalHash } from './digest';
+
+// Message word permutations; BLAKE2b runs 12 rounds and reuses the first two
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+// Column then diagonal lanes of the 4x4 working state
+const G_LANES = [
+  [0, 4, 8, 12], [1, 5, 9, 13], [2, 6, 10, 14], [3, 7, 11, 15],
+  [0, 5, 10, 15], [1, 6, 11, 12], [2, 7, 8, 13], [3, 4, 9, 14],
+];
+
+// BLAKE2 compresses the final block with a flag, so a full buffered block is only processed once more input arrives
+abstract class Blake2 implements IncrementalHash {
+  private readonly buffer: Uint8Array;
+  private bufferLength = 0;
+  protected counter = 0;
+
+  protected constructor(private readonly blockSize: number) {
+    this.buffer = new Uint8Array(blockSize);
+  }
+
+  protected abstract compress(block: Uint8Array, last: boolean): void;
+
+  protected abstract output(): Uint8Array;
+
+  update(data: Uint8Array): this {
+    for (let offset = 0; offset < data.length; ) {
+      if (this.bufferLength === this.blockSize) {
+        this.counter += this.blockSize;
+        this.compress(this.buffer, false);
+        this.bufferLength = 0;
+      }
+      const take = Math.min(this.blockSize - this.bufferLength, data.length - offset);
+      this.buffer.set(data.subarray(offset, offset + take), this.bufferLength);
+      this.bufferLength += take;
+      offset += take;
+    }
+    return this;
+  }
+
+  digest(): Uint8Array {
+    this.counter += this.bufferLength;
+    this.buffer.fill(0, this.bufferLength);
+    this.compress(this.buffer, true);
+    return this.output();
+  }
+}
+
+function littleEndianBytes(words: Uint32Array, length: number): Uint8Array {
+  const output = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    output[i] = words[i >> 2] >>> (8 * (i & 3));
+  }
+  return output;
+}
+
+// BLAKE2b initial values are the SHA-512 IV, as [low, high] word pairs
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+// BLAKE2b with 64-bit words held as [low, high] pairs of 32-bit integers
+export class Blake2b extends Blake2 {
+  private readonly h = new Uint32Array(BLAKE2B_IV);
+  private readonly v = new Uint32Array(32);
+  private readonly m = new Uint32Array(32);
+
+  constructor(private readonly outputLength: number = 64) {
+    super(128);
+    if (outputLength < 1 || outputLength > 64) {
+      throw new Error('BLAKE2b output length must be between 1 and 64 bytes');
+    }
+    this.h[0] ^= 0x01010000 ^ outputLength;
+  }
+
+  // v[a] += v[b] + (low, high)
+  private add(a: number, b: number, low: number, high: number): void {
+    const v = this.v;
+    const sum = v[a] + v[b] + low;
+    v[a + 1] = v[a + 1] + v[b + 1] + high + Math.floor(sum / 0x100000000);
+    v[a] = sum;
+  }
+
+  private mix(a: number, b: number, c: number, d: number, x: number, y: number): void {
+    const v = this.v;
+    const m = this.m;
+    this.add(a, b, m[x], m[x + 1]);
+    let low = v[d] ^ v[a];
+    let high = v[d + 1] ^ v[a + 1];
+    v[d] = high;
+    v[d + 1] = low;
+
+    this.add(c, d, 0, 0);
+    low = v[b] ^ v[c];
+    high = v[b + 1] ^ v[c + 1];
+    v[b] = (low >>> 24) | (high << 8);
+    v[b + 1] = (high >>> 24) | (low << 8);
+
+    this.add(a, b, m[y], m[y + 1]);
+    low = v[d] ^ v[a];
+    high = v[d + 1] ^ v[a + 1];
+    v[d] = (low >>> 16) | (high << 16);
+    v[d + 1] = (high >>> 16) | (low << 16);
+
+    this.add(c, d, 0, 0);
+    low = v[b] ^ v[c];
+    high = v[b + 1] ^ v[c + 1];
+    v[b] = (high >>> 31) | (low << 1);
+    v[b + 1] = (low >>> 31) | (high << 1);
+  }
+
+  protected compress(block: Uint8Array, last: boolean): void {
+    const { h, v, m } = this;
+    for (let i = 0; i < 32; i++) {
+      const offset = i * 4;
+      m[i] = block[offset] | (block[offset + 1] << 8) | (block[offset + 2] << 16) | (block[offset + 3] << 24);
+    }
+    v.set(h);
+    v.set(BLAKE2B_IV, 16);
+    v[24] ^= this.counter;
+    v[25] ^= Math.floor(this.counter / 0x100000000);
+    if (last) {
+      v[28] = ~v[28];
+      v[29] = ~v[29];
+    }
+
+    for (let round = 0; round < 12; round++) {
+      const sigma = SIGMA[round % 10];
+      G_LANES.forEach(([a, b, c, d], i) => {
+        this.mix(2 * a, 2 * b, 2 * c, 2 * d, 2 * sigma[2 * i], 2 * sigma[2 * i + 1]);
+      });
+    }
+    for (let i = 0; i < 16; i++) {
+      h[i] ^= v[i] ^ v[i + 16];
+    }
+  }
+
+  protected output(): Uint8Array {
+    return littleEndianBytes(this.h, this.outputLength);
+  }
+}
+
+// BLAKE2s initial values are the SHA-256 IV
+const BLAKE2S_IV = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+export class Blake2s extends Blake2 {
+  private readonly h = new Uint32Array(BLAKE2S_IV);
+  private readonly v = new Uint32Array(16);
+  private readonly m = new Uint32Array(16);
+
+  constructor(private readonly outputLength: number = 32) {
+    super(64);
+    if (outputLength < 1 || outputLength > 32) {
+      throw new Error('BLAKE2s output length must be between 1 and 32 bytes');
+    }
+    this.h[0] ^= 0x01010000 ^ outputLength;
+  }
+
+  private mix(a: number, b: number, c: number, d: number, x: number, y: number): void {
+    const v = this.v;
+    v[a] = v[a] + v[b] + x;
+    v[d] ^= v[a];
+    v[d] = (v[d] >>> 16) | (v[d] << 16);
+    v[c] = v[c] + v[d];
+    v[b] ^= v[c];
+    v[b] = (v[b] >>> 12) | (v[b] << 20);
+    v[a] = v[a] + v[b] + y;
+    v[d] ^= v[a];
+    v[d] = (v[d] >>> 8) | (v[d] << 24);
+    v[c] = v[c] + v[d];
+    v[b] ^= v[c];
+    v[b] = (v[b] >>> 7) | (v[b] << 25);
+  }
+
+  protected compress(block: Uint8Array, last: boolean): void {
+    const { h, v, m } = this;
+    for (let i = 0; i < 16; i++) {
+      const offset = i * 4;
+      m[i] = block[offset] | (block[offset + 1] << 8) | (block[offset + 2] << 16) | (block[offset + 3] << 24);
+    }
+    v.set(h);
+    v.set(BLAKE2S_IV, 8);
+    v[12] ^= this.counter;
+    v[13] ^= Math.floor(this.counter / 0x100000000);
+    if (last) {
+      v[14] = ~v[14];
+    }
+
+    for (let round = 0; round < 10; round++) {
+      const sigma = SIGMA[round];
+      G_LANES.forEach(([a, b, c, d], i) => {
+        this.mix(a, b, c, d, m[sigma[2 * i]], m[sigma[2 * i + 1]]);
+      });
+    }
+    for (let i = 0; i < 8; i++) {
+      h[i] ^= v[i] ^ v[i + 8];
+    }
+  }
+
+  protected output(): Uint8Array {
+    return littleEndianBytes(this.h, this.outputLength);
+  }
+}
@@ -0,0 +1,193 @@
+// BLAKE3 hash mode, following the structure of the reference implementation:
+// 1 KiB chunks compressed in sequence, merged into a binary tree through a stack of chaining values
+import { IncrementalHash } from './digest';
+
+const IV = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+const MESSAGE_PERMUTATION = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
+
+// Message word order for each of the 7 rounds, the permutation applied cumulatively
+const SCHEDULE: number[][] = [[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]];
+while (SCHEDULE.length < 7) {
+  const previous = SCHEDULE[SCHEDULE.length - 1];
+  SCHEDULE.push(MESSAGE_PERMUTATION.map(i => previous[i]));
+}
+
+const BLOCK_LENGTH = 64;
+const CHUNK_LENGTH = 1024;
+
+const CHUNK_START = 1;
+const CHUNK_END = 2;
+const PARENT = 4;
+const ROOT = 8;
+
+function mix(state: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number): void {
+  state[a] = state[a] + state[b] + x;
+  state[d] ^= state[a];
+  state[d] = (state[d] >>> 16) | (state[d] << 16);
+  state[c] = state[c] + state[d];
+  state[b] ^= state[c];
+  state[b] = (state[b] >>> 12) | (state[b] << 20);
+  state[a] = state[a] + state[b] + y;
+  state[d] ^= state[a];
+  state[d] = (state[d] >>> 8) | (state[d] << 24);
+  state[c] = state[c] + state[d];
+  state[b] ^= state[c];
+  state[b] = (state[b] >>> 7) | (state[b] << 25);
+}
+
+function compress(
+  chainingValue: Uint32Array,
+  blockWords: Uint32Array,
+  counter: number,
+  blockLength: number,
+  flags: number
+): Uint32Array {
+  const state = new Uint32Array(16);
+  state.set(chainingValue);
+  state.set(IV.subarray(0, 4), 8);
+  state[12] = counter;
+  state[13] = Math.floor(counter / 0x100000000);
+  state[14] = blockLength;
+  state[15] = flags;
+
+  const m = blockWords;
+  for (const s of SCHEDULE) {
+    mix(state, 0, 4, 8, 12, m[s[0]], m[s[1]]);
+    mix(state, 1, 5, 9, 13, m[s[2]], m[s[3]]);
+    mix(state, 2, 6, 10, 14, m[s[4]], m[s[5]]);
+    mix(state, 3, 7, 11, 15, m[s[6]], m[s[7]]);
+    mix(state, 0, 5, 10, 15, m[s[8]], m[s[9]]);
+    mix(state, 1, 6, 11, 12, m[s[10]], m[s[11]]);
+    mix(state, 2, 7, 8, 13, m[s[12]], m[s[13]]);
+    mix(state, 3, 4, 9, 14, m[s[14]], m[s[15]]);
+  }
+  for (let i = 0; i < 8; i++) {
+    state[i] ^= state[i + 8];
+    state[i + 8] ^= chainingValue[i];
+  }
+  return state;
+}
+
+function wordsFromBlock(block: Uint8Array): Uint32Array {
+  const words = new Uint32Array(16);
+  for (let i = 0; i < 16; i++) {
+    const offset = i * 4;
+    words[i] = block[offset] | (block[offset + 1] << 8) | (block[offset + 2] << 16) | (block[offset + 3] << 24);
+  }
+  return words;
+}
+
+// The inputs of a pending compression, kept unevaluated until it is known whether it is the root
+interface Output {
+  chainingValue: Uint32Array;
+  blockWords: Uint32Array;
+  counter: number;
+  blockLength: number;
+  flags: number;
+}
+
+function outputChainingValue(output: Output): Uint32Array {
+  return compress(output.chainingValue, output.blockWords, output.counter, output.blockLength, output.flags).subarray(0, 8);
+}
+
+function rootOutputBytes(output: Output, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let counter = 0, position = 0; position < length; counter++) {
+    const words = compress(output.chainingValue, output.blockWords, counter, output.blockLength, output.flags | ROOT);
+    for (let i = 0; i < BLOCK_LENGTH && position < length; i++, position++) {
+      bytes[position] = words[i >> 2] >>> (8 * (i & 3));
+    }
+  }
+  return bytes;
+}
+
+function parentOutput(left: Uint32Array, right: Uint32Array): Output {
+  const blockWords = new Uint32Array(16);
+  blockWords.set(left);
+  blockWords.set(right, 8);
+  return { chainingValue: IV, blockWords, counter: 0, blockLength: BLOCK_LENGTH, flags: PARENT };
+}
+
+class ChunkState {
+  private chainingValue: Uint32Array = IV;
+  private readonly block = new Uint8Array(BLOCK_LENGTH);
+  private blockLength = 0;
+  private blocksCompressed = 0;
+
+  constructor(readonly chunkCounter: number) {}
+
+  get length(): number {
+    return BLOCK_LENGTH * this.blocksCompressed + this.blockLength;
+  }
+
+  private startFlag(): number {
+    return this.blocksCompressed === 0 ? CHUNK_START : 0;
+  }
+
+  update(data: Uint8Array): void {
+    for (let offset = 0; offset < data.length; ) {
+      if (this.blockLength === BLOCK_LENGTH) {
+        this.chainingValue = compress(
+          this.chainingValue, wordsFromBlock(this.block), this.chunkCounter, BLOCK_LENGTH, this.startFlag()
+        ).subarray(0, 8);
+        this.blocksCompressed++;
+        this.block.fill(0);
+        this.blockLength = 0;
+      }
+      const take = Math.min(BLOCK_LENGTH - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+    }
+  }
+
+  output(): Output {
+    return {
+      chainingValue: this.chainingValue,
+      blockWords: wordsFromBlock(this.block),
+      counter: this.chunkCounter,
+      blockLength: this.blockLength,
+      flags: this.startFlag() | CHUNK_END,
+    };
+  }
+}
+
+export class Blake3 implements IncrementalHash {
+  private chunk = new ChunkState(0);
+  private readonly stack: Uint32Array[] = [];
+
+  constructor(private readonly outputLength: number = 32) {}
+
+  // Merge completed subtrees: each trailing zero bit of the chunk count closes one parent node
+  private addChunkChainingValue(chainingValue: Uint32Array, totalChunks: number): void {
+    while (totalChunks % 2 === 0) {
+      chainingValue = outputChainingValue(parentOutput(this.stack.pop()!, chainingValue));
+      totalChunks /= 2;
+    }
+    this.stack.push(chainingValue);
+  }
+
+  update(data: Uint8Array): this {
+    for (let offset = 0; offset < data.length; ) {
+      if (this.chunk.length === CHUNK_LENGTH) {
+        const totalChunks = this.chunk.chunkCounter + 1;
+        this.addChunkChainingValue(outputChainingValue(this.chunk.output()), totalChunks);
+        this.chunk = new ChunkState(totalChunks);
+      }
+      const take = Math.min(CHUNK_LENGTH - this.chunk.length, data.length - offset);
+      this.chunk.update(data.subarray(offset, offset + take));
+      offset += take;
+    }
+    return this;
+  }
+
+  digest(): Uint8Array {
+    let output = this.chunk.output();
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      output = parentOutput(this.stack[i], outputChainingValue(output));
+    }
+    return rootOutputBytes(output, this.outputLength);
+  }
+}
@@ -0,0 +1,278 @@
+// Local certificate authority for issuing test PKI certificates
+import type { KeyPair } from './crypto';
+import { ParsedCSR, verifyCSR } from './csr';
+import { createCRL } from './crl';
+import { OID } from './oids';
+import {
+  DistinguishedName,
+  GeneralName,
+  KeyUsage,
+  ParsedCertificate,
+  authorityKeyIdentifierExtension,
+  basicConstraintsExtension,
+  certificateToPem,
+  computeKeyIdentifier,
+  createCertificate,
+  decodeExtKeyUsage,
+  decodeGeneralNames,
+  decodeKeyUsage,
+  extKeyUsageExtension,
+  formatDN,
+  formatSerialNumber,
+  keyUsageExtension,
+  parseCertificate,
+  parseDN,
+  parseSerialNumber,
+  randomSerialNumber,
+  subjectAltNameExtension,
+  subjectKeyIdentifierExtension,
+} from './x509';
+
+export interface IssueOptions {
+  subject: string | DistinguishedName;
+  publicKey: CryptoKey | Uint8Array;
+  validityDays: number;
+  // Hexadecimal; a random 128-bit serial is used when omitted
+  serialNumber?: string;
+  // Issue a CA certificate, optionally limiting the number of intermediates below it
+  ca?: { pathLength?: number };
+  keyUsage?: number[];
+  extendedKeyUsage?: string[];
+  // Mark the extended key usage critical, as time-stamping certificates require
+  criticalExtendedKeyUsage?: boolean;
+  subjectAltNames?: GeneralName[];
+}
+
+// Entry in the CA's issuance and revocation database
+export interface IssuedCertificate {
+  serialNumber: string;
+  subject: string;
+  notAfter: Date;
+  revocation?: { date: Date; reason: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CA_KEY_USAGE = [KeyUsage.digitalSignature, KeyUsage.keyCertSign, KeyUsage.cRLSign];
+
+export class CertificateAuthority {
+  readonly name: string;
+  readonly certificate: ParsedCertificate;
+  readonly pem: string;
+  readonly issuer?: CertificateAuthority;
+  private readonly privateKey: CryptoKey;
+  private readonly keyIdentifier: Uint8Array;
+  private readonly database = new Map<string, IssuedCertificate>();
+  private crlNumber = 0;
+
+  private constructor(
+    der: Uint8Array,
+    privateKey: CryptoKey,
+    keyIdentifier: Uint8Array,
+    issuer?: CertificateAuthority
+  ) {
+    this.certificate = parseCertificate(der);
+    this.name = formatDN(this.certificate.subject);
+    this.pem = certificateToPem(der);
+    this.privateKey = privateKey;
+    this.keyIdentifier = keyIdentifier;
+    this.issuer = issuer;
+  }
+
+  // Create a self-signed root CA from an existing or freshly generated key pair
+  static async createRoot(
+    keyPair: KeyPair,
+    subject: string,
+    validityDays: number,
+    pathLength?: number
+  ): Promise<CertificateAuthority> {
+    try {
+      const dn = parseDN(subject);
+      const notBefore = new Date();
+      const keyIdentifier = await computeKeyIdentifier(keyPair.publicKey);
+      const der = await createCertificate(
+        {
+          serialNumber: randomSerialNumber(),
+          subject: dn,
+          issuer: dn,
+          notBefore,
+          notAfter: new Date(notBefore.getTime() + validityDays * DAY_MS),
+          publicKey: keyPair.publicKey,
+          extensions: [
+            basicConstraintsExtension(true, pathLength),
+            keyUsageExtension(CA_KEY_USAGE),
+            subjectKeyIdentifierExtension(keyIdentifier),
+          ],
+        },
+        keyPair.privateKey
+      );
+      return new CertificateAuthority(der, keyPair.privateKey, keyIdentifier);
+    } catch (error) {
+      throw new Error(`Failed to create root CA: ${error}`);
+    }
+  }
+
+  // Issue a subordinate CA that can itself issue certificates
+  async createIntermediate(
+    keyPair: KeyPair,
+    subject: string,
+    validityDays: number,
+    pathLength?: number
+  ): Promise<CertificateAuthority> {
+    try {
+      const der = await this.issue({
+        subject,
+        publicKey: keyPair.publicKey,
+        validityDays,
+        ca: { pathLength },
+        keyUsage: CA_KEY_USAGE,
+      });
+      const keyIdentifier = await computeKeyIdentifier(keyPair.publicKey);
+      return new CertificateAuthority(der, keyPair.privateKey, keyIdentifier, this);
+    } catch (error) {
+      throw new Error(`Failed to create intermediate CA: ${error}`);
+    }
+  }
+
+  // Issue a certificate for the given public key, returning its DER encoding
+  async issue(options: IssueOptions): Promise<Uint8Array> {
+    const notBefore = new Date();
+    const notAfter = new Date(notBefore.getTime() + options.validityDays * DAY_MS);
+    if (notAfter > this.certificate.notAfter) {
+      throw new Error(`Requested validity extends past the CA certificate's expiry (${this.certificate.notAfter.toISOString()})`);
+    }
+    if (notBefore < this.certificate.notBefore) {
+      throw new Error('CA certificate is not yet valid');
+    }
+
+    const subjectKeyIdentifier = await computeKeyIdentifier(options.publicKey);
+    const keyUsage = options.keyUsage ?? (options.ca ? CA_KEY_USAGE : [KeyUsage.digitalSignature]);
+    const extensions = [
+      basicConstraintsExtension(!!options.ca, options.ca?.pathLength),
+      ...(keyUsage.length > 0 ? [keyUsageExtension(keyUsage)] : []),
+      ...(options.extendedKeyUsage?.length ? [extKeyUsageExtension(options.extendedKeyUsage, options.criticalExtendedKeyUsage)] : []),
+      ...(options.subjectAltNames?.length ? [subjectAltNameExtension(options.subjectAltNames)] : []),
+      subjectKeyIdentifierExtension(subjectKeyIdentifier),
+      authorityKeyIdentifierExtension(this.keyIdentifier),
+    ];
+
+    const serialNumber = options.serialNumber ? parseSerialNumber(options.serialNumber) : randomSerialNumber();
+    const serialHex = formatSerialNumber(serialNumber);
+    if (this.database.has(serialHex)) {
+      throw new Error(`Serial number ${serialHex} has already been issued by this CA`);
+    }
+    const subject = typeof options.subject === 'string' ? parseDN(options.subject) : options.subject;
+
+    const der = await createCertificate(
+      {
+        serialNumber,
+        subject,
+        issuer: this.certificate.subject,
+        notBefore,
+        notAfter,
+        publicKey: options.publicKey,
+        extensions,
+      },
+      this.privateKey
+    );
+    this.database.set(serialHex, { serialNumber: serialHex, subject: formatDN(subject), notAfter });
+    return der;
+  }
+
+  // Issue a certificate from a PKCS#10 request after checking its proof of possession.
+  // Requested SANs, key usage and extended key usage are honoured unless overridden.
+  async issueFromRequest(
+    csr: ParsedCSR,
+    options: Omit<IssueOptions, 'subject' | 'publicKey'> & { subject?: string }
+  ): Promise<Uint8Array> {
+    if (!(await verifyCSR(csr))) {
+      throw new Error('Certificate request signature (proof of possession) is invalid');
+    }
+    const requested = (oid: string) => csr.requestedExtensions.find(extension => extension.oid === oid)?.value;
+    const requestedSan = requested(OID.subjectAltName);
+    const requestedKeyUsage = requested(OID.keyUsage);
+    const requestedExtKeyUsage = requested(OID.extKeyUsage);
+
+    return this.issue({
+      ...options,
+      subject: options.subject || csr.subject,
+      publicKey: csr.subjectPublicKeyInfo,
+      subjectAltNames: options.subjectAltNames?.length
+        ? options.subjectAltNames
+        : requestedSan
+          ? decodeGeneralNames(requestedSan).filter((name): name is GeneralName => name.type !== 'directory' && name.type !== 'other')
+          : undefined,
+      keyUsage: options.keyUsage ?? (requestedKeyUsage ? decodeKeyUsage(requestedKeyUsage) : undefined),
+      extendedKeyUsage: options.extendedKeyUsage ?? (requestedExtKeyUsage ? decodeExtKeyUsage(requestedExtKeyUsage) : undefined),
+    });
+  }
+
+  get issuedCertificates(): IssuedCertificate[] {
+    return [...this.database.values()];
+  }
+
+  // Mark a certificate issued by this CA as revoked; it appears on every later CRL
+  revoke(serialNumber: string, reason: number, date: Date = new Date()): void {
+    const entry = this.database.get(formatSerialNumber(parseSerialNumber(serialNumber)));
+    if (!entry) {
+      throw new Error(`Serial number ${serialNumber} was not issued by ${this.name}`);
+    }
+    if (entry.revocation) {
+      throw new Error(`Certificate ${entry.serialNumber} is already revoked`);
+    }
+    entry.revocation = { date, reason };
+  }
+
+  // Sign a fresh CRL listing every revoked certificate, with a monotonically increasing CRL number
+  async createCRL(nextUpdateDays: number = 7): Promise<Uint8Array> {
+    try {
+      const thisUpdate = new Date();
+      const der = await createCRL(
+        {
+          issuer: this.certificate.subject,
+          thisUpdate,
+          nextUpdate: new Date(thisUpdate.getTime() + nextUpdateDays * DAY_MS),
+          crlNumber: this.crlNumber + 1,
+          authorityKeyIdentifier: this.keyIdentifier,
+          revoked: this.issuedCertificates
+            .filter(entry => entry.revocation)
+            .map(entry => ({
+              serialNumber: parseSerialNumber(entry.serialNumber),
+              revocationDate: entry.revocation!.date,
+              reason: entry.revocation!.reason,
+            })),
+        },
+        this.privateKey
+      );
+      this.crlNumber++;
+      return der;
+    } catch (error) {
+      throw new Error(`Failed to create CRL: ${error}`);
+    }
+  }
+
+  // Certificates from this CA up to its root, for chain export
+  get chain(): CertificateAuthority[] {
+    return this.issuer ? [this, ...this.issuer.chain] : [this];
+  }
+}
+
+// CAs created in this session, kept outside the component tree so they outlive the tab that shows them
+const localAuthorities: CertificateAuthority[] = [];
+
+// Fired with type 'change' when a CA is added or its issued certificates, revocations or CRL number change
+export const authorityEvents = new EventTarget();
+
+export function registerLocalAuthority(authority: CertificateAuthority): void {
+  localAuthorities.push(authority);
+  authorityEvents.dispatchEvent(new Event('change'));
+}
+
+export function listLocalAuthorities(): CertificateAuthority[] {
+  return [...localAuthorities];
+}
+
+// A CA's database is mutated in place, so callers announce the change for the views that list it
+export function notifyAuthorityChanged(): void {
+  authorityEvents.dispatchEvent(new Event('change'));
+}
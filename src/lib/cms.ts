@@ -0,0 +1,248 @@
+// CMS SignedData (RFC 5652) with ESS signing-certificate attributes (RFC 5035)
+import { ASN1Node, DER, Tag, TagClass } from './asn1';
+import { OID } from './oids';
+import { bytesEqual, concatBytes } from './encoding';
+import {
+  AlgorithmIdentifierInfo,
+  DistinguishedName,
+  HASH_NAMES,
+  HASH_OIDS,
+  PKCS1_SIGNATURE_OIDS,
+  ParsedCertificate,
+  decodeDN,
+  decodeKeyIdentifier,
+  getExtension,
+  namesMatch,
+  parseAlgorithmIdentifier,
+  parseCertificate,
+  signBytes,
+  signingHash,
+  verifySignedData,
+} from './x509';
+
+export interface CMSAttribute {
+  oid: string;
+  values: ASN1Node[];
+}
+
+export interface SignerIdentifier {
+  issuer?: DistinguishedName;
+  serialNumber?: Uint8Array;
+  subjectKeyIdentifier?: Uint8Array;
+}
+
+export interface SignerInfo {
+  sid: SignerIdentifier;
+  // WebCrypto digest name
+  digestAlgorithm: string;
+  signedAttributes: CMSAttribute[];
+  // DER of the signed attributes with the SET tag restored, i.e. the bytes that were signed
+  signedAttributesDer?: Uint8Array;
+  signatureAlgorithm: AlgorithmIdentifierInfo;
+  signature: Uint8Array;
+}
+
+export interface SignedData {
+  contentType: string;
+  content?: Uint8Array;
+  certificates: ParsedCertificate[];
+  signers: SignerInfo[];
+}
+
+export interface SignedDataOptions {
+  contentType: string;
+  content: Uint8Array;
+  signingKey: CryptoKey;
+  signerCertificate: ParsedCertificate;
+  // Certificates to embed, normally the signer's followed by its chain
+  certificates: ParsedCertificate[];
+  signingTime?: Date;
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await window.crypto.subtle.digest(algorithm, data));
+}
+
+function encodeAttribute(oid: string, ...values: Uint8Array[]): Uint8Array {
+  return DER.sequence(DER.oid(oid), DER.set(...values));
+}
+
+// SigningCertificateV2 with a single SHA-256 ESSCertIDv2 (the default hash, so it is omitted)
+async function signingCertificateV2(certificate: ParsedCertificate): Promise<Uint8Array> {
+  const issuerSerial = DER.sequence(
+    DER.sequence(DER.explicit(4, certificate.issuerDer)),
+    DER.integer(certificate.serialNumber)
+  );
+  return DER.sequence(DER.sequence(DER.sequence(
+    DER.octetString(await digest('SHA-256', certificate.der)),
+    issuerSerial
+  )));
+}
+
+// Build a ContentInfo wrapping SignedData with the content encapsulated
+export async function createSignedData(options: SignedDataOptions): Promise<Uint8Array> {
+  const hash = signingHash(options.signingKey);
+  const digestAlgorithm = DER.sequence(DER.oid(HASH_OIDS[hash]), DER.null());
+  const signer = options.signerCertificate;
+
+  const signedAttributes = DER.set(
+    encodeAttribute(OID.contentType, DER.oid(options.contentType)),
+    encodeAttribute(OID.signingTime, DER.time(options.signingTime ?? new Date())),
+    encodeAttribute(OID.messageDigest, DER.octetString(await digest(hash, options.content))),
+    encodeAttribute(OID.signingCertificateV2, await signingCertificateV2(signer))
+  );
+  const { algorithmIdentifier, signature } = await signBytes(signedAttributes, options.signingKey);
+
+  const signerInfo = DER.sequence(
+    DER.integer(1),
+    DER.sequence(signer.issuerDer, DER.integer(signer.serialNumber)),
+    digestAlgorithm,
+    // Signed as a SET OF but carried as [0] IMPLICIT
+    concatBytes(new Uint8Array([0xa0]), signedAttributes.subarray(1)),
+    algorithmIdentifier,
+    DER.octetString(signature)
+  );
+
+  const signedData = DER.sequence(
+    DER.integer(3), // eContentType is not id-data
+    DER.set(digestAlgorithm),
+    DER.sequence(DER.oid(options.contentType), DER.explicit(0, DER.octetString(options.content))),
+    ...(options.certificates.length > 0
+      ? [DER.implicit(0, concatBytes(...options.certificates.map(certificate => certificate.der)), true)]
+      : []),
+    DER.set(signerInfo)
+  );
+  return DER.sequence(DER.oid(OID.signedData), DER.explicit(0, signedData));
+}
+
+function decodeSignerInfo(node: ASN1Node): SignerInfo {
+  const fields = DER.expect(node, Tag.SEQUENCE, 'SignerInfo').children;
+  const [, sidNode, digestAlgorithmNode] = fields;
+  const rest = fields.slice(3);
+
+  const sid: SignerIdentifier = {};
+  if (sidNode.tagClass === TagClass.CONTEXT && sidNode.tag === 0) {
+    sid.subjectKeyIdentifier = sidNode.value;
+  } else {
+    const [issuerNode, serialNode] = DER.expect(sidNode, Tag.SEQUENCE, 'IssuerAndSerialNumber').children;
+    sid.issuer = decodeDN(issuerNode);
+    sid.serialNumber = DER.decodeIntegerBytes(serialNode);
+  }
+
+  const digestOid = parseAlgorithmIdentifier(digestAlgorithmNode).oid;
+  const digestAlgorithm = HASH_NAMES[digestOid];
+  if (!digestAlgorithm) {
+    throw new Error(`Unsupported digest algorithm ${digestOid}`);
+  }
+
+  let signedAttributes: CMSAttribute[] = [];
+  let signedAttributesDer: Uint8Array | undefined;
+  if (rest[0].tagClass === TagClass.CONTEXT && rest[0].tag === 0) {
+    const attributesNode = rest.shift()!;
+    signedAttributesDer = concatBytes(new Uint8Array([0x31]), attributesNode.raw.subarray(1));
+    signedAttributes = attributesNode.children.map(attribute => ({
+      oid: DER.decodeOid(attribute.children[0]),
+      values: DER.expect(attribute.children[1], Tag.SET, 'AttributeValues').children,
+    }));
+  }
+  const [signatureAlgorithmNode, signatureNode] = rest;
+
+  return {
+    sid,
+    digestAlgorithm,
+    signedAttributes,
+    signedAttributesDer,
+    signatureAlgorithm: parseAlgorithmIdentifier(signatureAlgorithmNode),
+    signature: DER.expect(signatureNode, Tag.OCTET_STRING, 'signature').value,
+  };
+}
+
+export function parseSignedData(der: Uint8Array): SignedData {
+  try {
+    const contentInfo = DER.expect(DER.decode(der), Tag.SEQUENCE, 'ContentInfo');
+    const contentType = DER.decodeOid(contentInfo.children[0]);
+    if (contentType !== OID.signedData) {
+      throw new Error(`Expected SignedData but found content type ${contentType}`);
+    }
+    const signedData = DER.expect(DER.contextChild(contentInfo, 0)?.children[0], Tag.SEQUENCE, 'SignedData');
+    const [, , encapNode, ...rest] = signedData.children;
+
+    const encap = DER.expect(encapNode, Tag.SEQUENCE, 'EncapsulatedContentInfo');
+    const eContent = DER.contextChild(encap, 0);
+    const certificatesNode = rest.find(node => node.tagClass === TagClass.CONTEXT && node.tag === 0);
+    const signerInfos = DER.expect(rest[rest.length - 1], Tag.SET, 'SignerInfos');
+
+    return {
+      contentType: DER.decodeOid(encap.children[0]),
+      content: eContent ? DER.expect(eContent.children[0], Tag.OCTET_STRING, 'eContent').value : undefined,
+      certificates: (certificatesNode?.children ?? [])
+        .filter(node => node.tagClass === TagClass.UNIVERSAL && node.tag === Tag.SEQUENCE)
+        .map(node => parseCertificate(node.raw)),
+      signers: signerInfos.children.map(decodeSignerInfo),
+    };
+  } catch (error) {
+    throw new Error(`Malformed CMS SignedData: ${(error as Error).message}`);
+  }
+}
+
+export function getSignedAttribute(signer: SignerInfo, oid: string): ASN1Node | undefined {
+  return signer.signedAttributes.find(attribute => attribute.oid === oid)?.values[0];
+}
+
+// Locate the signer's certificate among those embedded in (or supplied alongside) the message
+export function findSignerCertificate(
+  signer: SignerInfo,
+  certificates: ParsedCertificate[]
+): ParsedCertificate | undefined {
+  return certificates.find(certificate => {
+    if (signer.sid.subjectKeyIdentifier) {
+      const ski = getExtension(certificate, OID.subjectKeyIdentifier);
+      return !!ski && bytesEqual(decodeKeyIdentifier(ski.value), signer.sid.subjectKeyIdentifier);
+    }
+    return !!signer.sid.issuer && !!signer.sid.serialNumber
+      && namesMatch(certificate.issuer, signer.sid.issuer)
+      && bytesEqual(certificate.serialNumber, signer.sid.serialNumber);
+  });
+}
+
+// Check the messageDigest attribute against the content and the signature over the signed attributes
+export async function verifySignerInfo(
+  signer: SignerInfo,
+  content: Uint8Array,
+  certificate: ParsedCertificate
+): Promise<boolean> {
+  // CMS allows plain rsaEncryption here, leaving the hash to the digestAlgorithm field
+  const signatureAlgorithm = signer.signatureAlgorithm.oid === OID.rsaEncryption
+    ? { oid: PKCS1_SIGNATURE_OIDS[signer.digestAlgorithm] }
+    : signer.signatureAlgorithm;
+  if (!signer.signedAttributesDer) {
+    return verifySignedData(content, signatureAlgorithm, signer.signature, certificate.subjectPublicKeyInfo);
+  }
+  const messageDigest = getSignedAttribute(signer, OID.messageDigest);
+  if (!messageDigest || !bytesEqual(messageDigest.value, await digest(signer.digestAlgorithm, content))) {
+    return false;
+  }
+  return verifySignedData(
+    signer.signedAttributesDer,
+    signatureAlgorithm,
+    signer.signature,
+    certificate.subjectPublicKeyInfo
+  );
+}
+
+// ESS signing-certificate check: the signed attributes must name the certificate used to verify
+export async function matchesSigningCertificate(signer: SignerInfo, certificate: ParsedCertificate): Promise<boolean> {
+  const v2 = getSignedAttribute(signer, OID.signingCertificateV2);
+  const v1 = getSignedAttribute(signer, OID.signingCertificate);
+  const essCertId = (v2 ?? v1)?.children[0]?.children[0];
+  if (!essCertId) {
+    return false;
+  }
+  let hash = v2 ? 'SHA-256' : 'SHA-1';
+  let hashNode = essCertId.children[0];
+  if (v2 && hashNode.tag === Tag.SEQUENCE) {
+    hash = HASH_NAMES[parseAlgorithmIdentifier(hashNode).oid] ?? 'unknown';
+    hashNode = essCertId.children[1];
+  }
+  return bytesEqual(hashNode.value, await digest(hash, certificate.der));
+}
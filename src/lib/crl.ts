@@ -0,0 +1,181 @@
+// X.509 v2 certificate revocation lists (RFC 5280, section 5)
+import { DER, Tag, TagClass } from './asn1';
+import { OID } from './oids';
+import { bytesEqual, fromBase64, fromPem, toPem } from './encoding';
+import {
+  AlgorithmIdentifierInfo,
+  DistinguishedName,
+  Extension,
+  authorityKeyIdentifierExtension,
+  decodeDN,
+  decodeExtensions,
+  encodeDN,
+  encodeExtensions,
+  parseAlgorithmIdentifier,
+  signStructure,
+  verifySignedData,
+} from './x509';
+
+export const RevocationReason = {
+  unspecified: 0,
+  keyCompromise: 1,
+  cACompromise: 2,
+  affiliationChanged: 3,
+  superseded: 4,
+  cessationOfOperation: 5,
+  certificateHold: 6,
+  privilegeWithdrawn: 9,
+  aACompromise: 10,
+} as const;
+
+export const REVOCATION_REASON_NAMES: Record<number, string> = {
+  0: 'Unspecified',
+  1: 'Key Compromise',
+  2: 'CA Compromise',
+  3: 'Affiliation Changed',
+  4: 'Superseded',
+  5: 'Cessation of Operation',
+  6: 'Certificate Hold',
+  8: 'Remove from CRL',
+  9: 'Privilege Withdrawn',
+  10: 'AA Compromise',
+};
+
+export interface RevokedCertificate {
+  serialNumber: Uint8Array;
+  revocationDate: Date;
+  reason: number;
+}
+
+export interface CRLTemplate {
+  issuer: DistinguishedName;
+  thisUpdate: Date;
+  nextUpdate: Date;
+  crlNumber: number;
+  authorityKeyIdentifier: Uint8Array;
+  revoked: RevokedCertificate[];
+}
+
+export interface ParsedCRL {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  issuer: DistinguishedName;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  crlNumber?: bigint;
+  revoked: RevokedCertificate[];
+  extensions: Extension[];
+  signatureAlgorithm: AlgorithmIdentifierInfo;
+  signature: Uint8Array;
+}
+
+// Build and sign a DER-encoded CRL
+export async function createCRL(template: CRLTemplate, signingKey: CryptoKey): Promise<Uint8Array> {
+  const entries = template.revoked.map(entry => DER.sequence(
+    DER.integer(entry.serialNumber),
+    DER.time(entry.revocationDate),
+    // reasonCode is omitted for "unspecified", as RFC 5280 recommends
+    ...(entry.reason !== RevocationReason.unspecified
+      ? [encodeExtensions([{ oid: OID.cRLReason, critical: false, value: DER.enumerated(entry.reason) }])]
+      : [])
+  ));
+  const extensions: Extension[] = [
+    authorityKeyIdentifierExtension(template.authorityKeyIdentifier),
+    { oid: OID.cRLNumber, critical: false, value: DER.integer(template.crlNumber) },
+  ];
+
+  return signStructure(signatureAlgorithm => DER.sequence(
+    DER.integer(1), // v2
+    signatureAlgorithm,
+    encodeDN(template.issuer),
+    DER.time(template.thisUpdate),
+    DER.time(template.nextUpdate),
+    ...(entries.length > 0 ? [DER.sequence(...entries)] : []),
+    DER.explicit(0, encodeExtensions(extensions))
+  ), signingKey);
+}
+
+export function crlToPem(der: Uint8Array): string {
+  return toPem(der, 'X509 CRL');
+}
+
+// Accept PEM text, bare Base64 or raw DER bytes
+export function crlInputToDer(input: string | ArrayBuffer | Uint8Array): Uint8Array {
+  if (typeof input !== 'string') {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    return bytes[0] === 0x30 ? bytes : crlInputToDer(new TextDecoder().decode(bytes));
+  }
+  if (input.includes('-----BEGIN')) {
+    return fromPem(input, 'X509 CRL').der;
+  }
+  return fromBase64(input.trim());
+}
+
+export function parseCRL(input: Uint8Array): ParsedCRL {
+  try {
+    const list = DER.expect(DER.decode(input), Tag.SEQUENCE, 'CertificateList');
+    const [tbsNode, algorithmNode, signatureNode] = list.children;
+    DER.expect(tbsNode, Tag.SEQUENCE, 'TBSCertList');
+
+    const fields = [...tbsNode.children];
+    if (fields[0]?.tag === Tag.INTEGER && fields[0].tagClass === TagClass.UNIVERSAL) {
+      fields.shift(); // version
+    }
+    const [innerAlgorithmNode, issuerNode, thisUpdateNode, ...rest] = fields;
+    const signatureAlgorithm = parseAlgorithmIdentifier(algorithmNode);
+    if (parseAlgorithmIdentifier(innerAlgorithmNode).oid !== signatureAlgorithm.oid) {
+      throw new Error('Signature algorithm in TBSCertList does not match the outer algorithm');
+    }
+
+    let nextUpdate: Date | undefined;
+    if (rest[0] && (rest[0].tag === Tag.UTC_TIME || rest[0].tag === Tag.GENERALIZED_TIME)
+      && rest[0].tagClass === TagClass.UNIVERSAL) {
+      nextUpdate = DER.decodeTime(rest.shift()!);
+    }
+
+    const revoked: RevokedCertificate[] = [];
+    if (rest[0]?.tag === Tag.SEQUENCE && rest[0].tagClass === TagClass.UNIVERSAL) {
+      for (const entry of rest.shift()!.children) {
+        let reason: number = RevocationReason.unspecified;
+        if (entry.children[2]) {
+          const reasonExtension = decodeExtensions(entry.children[2]).find(extension => extension.oid === OID.cRLReason);
+          if (reasonExtension) {
+            reason = DER.decodeEnumerated(DER.decode(reasonExtension.value));
+          }
+        }
+        revoked.push({
+          serialNumber: DER.decodeIntegerBytes(entry.children[0]),
+          revocationDate: DER.decodeTime(entry.children[1]),
+          reason,
+        });
+      }
+    }
+
+    const extensionsNode = rest.find(node => node.tagClass === TagClass.CONTEXT && node.tag === 0);
+    const extensions = extensionsNode ? decodeExtensions(extensionsNode.children[0]) : [];
+    const crlNumber = extensions.find(extension => extension.oid === OID.cRLNumber);
+
+    return {
+      der: input,
+      tbs: tbsNode.raw,
+      issuer: decodeDN(issuerNode),
+      thisUpdate: DER.decodeTime(thisUpdateNode),
+      nextUpdate,
+      crlNumber: crlNumber ? DER.decodeInteger(DER.decode(crlNumber.value)) : undefined,
+      revoked,
+      extensions,
+      signatureAlgorithm,
+      signature: DER.decodeBitString(signatureNode).bytes,
+    };
+  } catch (error) {
+    throw new Error(`Malformed CRL: ${(error as Error).message}`);
+  }
+}
+
+export function verifyCRLSignature(crl: ParsedCRL, issuerPublicKeyInfo: Uint8Array): Promise<boolean> {
+  return verifySignedData(crl.tbs, crl.signatureAlgorithm, crl.signature, issuerPublicKeyInfo);
+}
+
+export function findRevocation(crl: ParsedCRL, serialNumber: Uint8Array): RevokedCertificate | undefined {
+  return crl.revoked.find(entry => bytesEqual(entry.serialNumber, serialNumber));
+}
@@ -0,0 +1,120 @@
+// PKCS#10 certification requests (RFC 2986)
+import { DER, Tag, TagClass } from './asn1';
+import type { KeyPair } from './crypto';
+import { concatBytes, fromPem, toPem } from './encoding';
+import {
+  AlgorithmIdentifierInfo,
+  DistinguishedName,
+  Extension,
+  GeneralName,
+  decodeDN,
+  decodeExtensions,
+  encodeDN,
+  encodeExtensions,
+  exportSubjectPublicKeyInfo,
+  extKeyUsageExtension,
+  keyUsageExtension,
+  parseAlgorithmIdentifier,
+  signStructure,
+  subjectAltNameExtension,
+  verifySignedData,
+} from './x509';
+
+const EXTENSION_REQUEST = '1.2.840.113549.1.9.14';
+
+export interface CSROptions {
+  subjectAltNames?: GeneralName[];
+  keyUsage?: number[];
+  extendedKeyUsage?: string[];
+}
+
+export interface ParsedCSR {
+  der: Uint8Array;
+  certificationRequestInfo: Uint8Array;
+  subject: DistinguishedName;
+  subjectPublicKeyInfo: Uint8Array;
+  requestedExtensions: Extension[];
+  signatureAlgorithm: AlgorithmIdentifierInfo;
+  signature: Uint8Array;
+}
+
+// Build a CSR signed with the requester's private key (proof of possession)
+export async function createCSR(
+  keyPair: KeyPair,
+  subject: DistinguishedName,
+  options: CSROptions = {}
+): Promise<Uint8Array> {
+  const extensions: Extension[] = [
+    ...(options.keyUsage?.length ? [keyUsageExtension(options.keyUsage)] : []),
+    ...(options.extendedKeyUsage?.length ? [extKeyUsageExtension(options.extendedKeyUsage)] : []),
+    ...(options.subjectAltNames?.length ? [subjectAltNameExtension(options.subjectAltNames)] : []),
+  ];
+  const attributes = extensions.length > 0
+    ? [DER.sequence(DER.oid(EXTENSION_REQUEST), DER.set(encodeExtensions(extensions)))]
+    : [];
+  const spki = await exportSubjectPublicKeyInfo(keyPair.publicKey);
+
+  return signStructure(() => DER.sequence(
+    DER.integer(0),
+    encodeDN(subject),
+    spki,
+    DER.implicit(0, concatBytes(...attributes), true)
+  ), keyPair.privateKey);
+}
+
+export function csrToPem(der: Uint8Array): string {
+  return toPem(der, 'CERTIFICATE REQUEST');
+}
+
+export function parseCSR(input: string | Uint8Array): ParsedCSR {
+  try {
+    let der: Uint8Array;
+    if (typeof input === 'string') {
+      const pem = fromPem(input);
+      if (pem.label !== 'CERTIFICATE REQUEST' && pem.label !== 'NEW CERTIFICATE REQUEST') {
+        throw new Error(`Expected a CERTIFICATE REQUEST PEM block but found "${pem.label}"`);
+      }
+      der = pem.der;
+    } else {
+      der = input;
+    }
+    const request = DER.expect(DER.decode(der), Tag.SEQUENCE, 'CertificationRequest');
+    const [infoNode, algorithmNode, signatureNode] = request.children;
+    DER.expect(infoNode, Tag.SEQUENCE, 'CertificationRequestInfo');
+    const [versionNode, subjectNode, spkiNode, attributesNode] = infoNode.children;
+    if (DER.decodeInteger(DER.expect(versionNode, Tag.INTEGER, 'version')) !== 0n) {
+      throw new Error('Unsupported CSR version');
+    }
+    DER.expect(spkiNode, Tag.SEQUENCE, 'SubjectPublicKeyInfo');
+
+    let requestedExtensions: Extension[] = [];
+    if (attributesNode && attributesNode.tagClass === TagClass.CONTEXT && attributesNode.tag === 0) {
+      for (const attribute of attributesNode.children) {
+        if (DER.decodeOid(attribute.children[0]) === EXTENSION_REQUEST) {
+          requestedExtensions = decodeExtensions(DER.expect(attribute.children[1], Tag.SET, 'extensionRequest').children[0]);
+        }
+      }
+    }
+
+    return {
+      der,
+      certificationRequestInfo: infoNode.raw,
+      subject: decodeDN(subjectNode),
+      subjectPublicKeyInfo: spkiNode.raw,
+      requestedExtensions,
+      signatureAlgorithm: parseAlgorithmIdentifier(algorithmNode),
+      signature: DER.decodeBitString(signatureNode).bytes,
+    };
+  } catch (error) {
+    throw new Error(`Malformed certificate request: ${(error as Error).message}`);
+  }
+}
+
+// Check the proof-of-possession signature with the public key inside the request
+export async function verifyCSR(csr: ParsedCSR): Promise<boolean> {
+  return verifySignedData(csr.certificationRequestInfo, csr.signatureAlgorithm, csr.signature, csr.subjectPublicKeyInfo);
+}
+
+export function getRequestedExtension(csr: ParsedCSR, oid: string): Extension | undefined {
+  return csr.requestedExtensions.find(extension => extension.oid === oid);
+}
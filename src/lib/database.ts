@@ -0,0 +1,66 @@
+// The app's IndexedDB database, shared by the keystore and the vault
+const DATABASE_NAME = 'secure-signify-vault';
+// Version 2 added the vault's metadata and encrypted records
+const DATABASE_VERSION = 2;
+
+export const KEY_STORE = 'keys';
+export const VAULT_STORE = 'vault';
+export const RECORD_STORE = 'records';
+
+let database: Promise<IDBDatabase> | undefined;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(KEY_STORE)) {
+        db.createObjectStore(KEY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(VAULT_STORE)) {
+        db.createObjectStore(VAULT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(RECORD_STORE)) {
+        db.createObjectStore(RECORD_STORE, { keyPath: ['collection', 'id'] }).createIndex('collection', 'collection');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = undefined;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+// Run requests in one transaction and resolve once it has committed, so a failure rolls back every write
+export async function withTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = operation(transaction) || undefined;
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error ?? request?.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Database transaction aborted'));
+  });
+}
+
+// Run one request against a single store
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return withTransaction(
+    [storeName],
+    mode,
+    transaction => operation(transaction.objectStore(storeName))
+  ) as Promise<T>;
+}
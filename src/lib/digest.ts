@@ -0,0 +1,83 @@
+// Incremental hash interface and the Merkle-Damgard block buffering shared by MD5 and SHA-1/SHA-2
+
+export interface IncrementalHash {
+  update(data: Uint8Array): this;
+  // Finish the hash; the instance must not be updated afterwards
+  digest(): Uint8Array;
+}
+
+export abstract class MerkleDamgardHash implements IncrementalHash {
+  private readonly buffer: Uint8Array;
+  private bufferLength = 0;
+  // Total bytes hashed; exact up to 2^53, far beyond any file a browser can read
+  private length = 0;
+
+  protected constructor(
+    private readonly blockSize: number,
+    // Size of the message length field in the final block (8 bytes, or 16 for SHA-384/512)
+    private readonly lengthSize: number,
+    // MD5 encodes the message length little-endian, the SHA family big-endian
+    private readonly littleEndian: boolean = false
+  ) {
+    this.buffer = new Uint8Array(blockSize);
+  }
+
+  protected abstract processBlock(block: Uint8Array, offset: number): void;
+
+  protected abstract output(): Uint8Array;
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.length += data.length;
+    if (this.bufferLength > 0) {
+      const take = Math.min(this.blockSize - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength < this.blockSize) {
+        return this;
+      }
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+    for (; offset + this.blockSize <= data.length; offset += this.blockSize) {
+      this.processBlock(data, offset);
+    }
+    this.buffer.set(data.subarray(offset), 0);
+    this.bufferLength = data.length - offset;
+    return this;
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.length * 8;
+    const padLength = (this.bufferLength < this.blockSize - this.lengthSize ? 1 : 2) * this.blockSize - this.bufferLength;
+    const padding = new Uint8Array(padLength);
+    padding[0] = 0x80;
+    // Bit length as a 64-bit integer; any wider length field stays zero in its high bytes
+    const high = Math.floor(bitLength / 0x100000000);
+    const low = bitLength >>> 0;
+    for (let i = 0; i < 4; i++) {
+      if (this.littleEndian) {
+        padding[padLength - 8 + i] = low >>> (8 * i);
+        padding[padLength - 4 + i] = high >>> (8 * i);
+      } else {
+        padding[padLength - 1 - i] = low >>> (8 * i);
+        padding[padLength - 5 - i] = high >>> (8 * i);
+      }
+    }
+    const length = this.length;
+    this.update(padding);
+    this.length = length;
+    return this.output();
+  }
+}
+
+// Write 32-bit words big-endian (SHA) or little-endian (MD5)
+export function wordsToBytes(words: ArrayLike<number>, count: number, littleEndian: boolean = false): Uint8Array {
+  const bytes = new Uint8Array(count * 4);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < count; i++) {
+    view.setUint32(i * 4, words[i] >>> 0, littleEndian);
+  }
+  return bytes;
+}
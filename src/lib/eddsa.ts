@@ -0,0 +1,180 @@
+// EdDSA keys backed by WebCrypto where the browser implements the curve, and by ./edwards otherwise
+import { DER, Tag } from './asn1';
+import { EdCurve, getPublicKey, sign, verify } from './edwards';
+import { fromBase64Url, toBase64Url } from './encoding';
+import { OID } from './oids';
+
+export type { EdCurve } from './edwards';
+
+export const ED_CURVES: EdCurve[] = ['Ed25519', 'Ed448'];
+
+const CURVE_OIDS: Record<EdCurve, string> = { Ed25519: OID.ed25519, Ed448: OID.ed448 };
+
+// Key with the shape of a CryptoKey whose key material lives in JavaScript
+class SoftwareEdKey implements CryptoKey {
+  readonly algorithm: KeyAlgorithm;
+  readonly extractable = true;
+  readonly type: KeyType;
+  readonly usages: KeyUsage[];
+  readonly publicKey: Uint8Array;
+  readonly seed?: Uint8Array;
+
+  constructor(curve: EdCurve, publicKey: Uint8Array, seed?: Uint8Array) {
+    this.algorithm = { name: curve };
+    this.type = seed ? 'private' : 'public';
+    this.usages = seed ? ['sign'] : ['verify'];
+    this.publicKey = publicKey;
+    this.seed = seed;
+  }
+
+  get curve(): EdCurve {
+    return this.algorithm.name as EdCurve;
+  }
+}
+
+const nativeSupport: Partial<Record<EdCurve, Promise<boolean>>> = {};
+
+// Whether WebCrypto implements the curve, probed once per curve
+export function hasNativeSupport(curve: EdCurve): Promise<boolean> {
+  if (!nativeSupport[curve]) {
+    nativeSupport[curve] = window.crypto.subtle
+      .generateKey({ name: curve }, false, ['sign', 'verify'])
+      .then(() => true, () => false);
+  }
+  return nativeSupport[curve]!;
+}
+
+export function isEdKey(key: CryptoKey): boolean {
+  return (ED_CURVES as string[]).includes(key.algorithm.name);
+}
+
+export function edCurveOf(key: CryptoKey): EdCurve {
+  if (!isEdKey(key)) {
+    throw new Error(`Not an EdDSA key: ${key.algorithm.name}`);
+  }
+  return key.algorithm.name as EdCurve;
+}
+
+export async function generateEdKeyPair(curve: EdCurve): Promise<CryptoKeyPair> {
+  if (await hasNativeSupport(curve)) {
+    return window.crypto.subtle.generateKey({ name: curve }, true, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+  }
+  const seed = window.crypto.getRandomValues(new Uint8Array(curve === 'Ed25519' ? 32 : 57));
+  const publicKey = await getPublicKey(curve, seed);
+  return { publicKey: new SoftwareEdKey(curve, publicKey), privateKey: new SoftwareEdKey(curve, publicKey, seed) };
+}
+
+// Pure EdDSA signature (no context, no pre-hashing) over the whole message
+export async function edSign(privateKey: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  if (privateKey instanceof SoftwareEdKey) {
+    if (!privateKey.seed) {
+      throw new Error('A private key is required for signing');
+    }
+    return sign(privateKey.curve, privateKey.seed, data);
+  }
+  return new Uint8Array(await window.crypto.subtle.sign({ name: edCurveOf(privateKey) }, privateKey, data));
+}
+
+export async function edVerify(publicKey: CryptoKey, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+  if (publicKey instanceof SoftwareEdKey) {
+    return verify(publicKey.curve, publicKey.publicKey, signature, data);
+  }
+  return window.crypto.subtle.verify({ name: edCurveOf(publicKey) }, publicKey, signature, data);
+}
+
+// Raw material of a software key; structured clone (e.g. into IndexedDB) would drop the class
+export interface SoftwareEdKeyData {
+  curve: EdCurve;
+  publicKey: Uint8Array;
+  seed?: Uint8Array;
+}
+
+export function softwareEdKeyData(key: CryptoKey): SoftwareEdKeyData | undefined {
+  if (!(key instanceof SoftwareEdKey)) {
+    return undefined;
+  }
+  return { curve: key.curve, publicKey: key.publicKey, ...(key.seed ? { seed: key.seed } : {}) };
+}
+
+export function softwareEdKeyFromData(data: SoftwareEdKeyData): CryptoKey {
+  return new SoftwareEdKey(data.curve, data.publicKey, data.seed);
+}
+
+// SubjectPublicKeyInfo (RFC 8410 section 4) or PKCS#8 PrivateKeyInfo (section 7)
+export async function exportEdKey(key: CryptoKey, format: 'spki' | 'pkcs8'): Promise<Uint8Array> {
+  if (!(key instanceof SoftwareEdKey)) {
+    return new Uint8Array(await window.crypto.subtle.exportKey(format, key));
+  }
+  const algorithm = DER.sequence(DER.oid(CURVE_OIDS[key.curve]));
+  if (format === 'spki') {
+    return DER.sequence(algorithm, DER.bitString(key.publicKey));
+  }
+  if (!key.seed) {
+    throw new Error('Cannot export a public key as PKCS#8');
+  }
+  return DER.sequence(DER.integer(0), algorithm, DER.octetString(DER.octetString(key.seed)));
+}
+
+// OKP JSON Web Key (RFC 8037)
+export async function exportEdJwk(key: CryptoKey): Promise<JsonWebKey> {
+  if (!(key instanceof SoftwareEdKey)) {
+    return window.crypto.subtle.exportKey('jwk', key);
+  }
+  return {
+    kty: 'OKP',
+    crv: key.curve,
+    x: toBase64Url(key.publicKey),
+    ...(key.seed ? { d: toBase64Url(key.seed) } : {}),
+    key_ops: key.usages,
+    ext: true,
+  };
+}
+
+// Import an EdDSA public ('spki') or private ('pkcs8') key, or a JWK of either kind
+export async function importEdKey(
+  format: 'spki' | 'pkcs8' | 'jwk',
+  keyData: Uint8Array | JsonWebKey,
+  curve: EdCurve
+): Promise<CryptoKey> {
+  const isPrivate = format === 'jwk' ? !!(keyData as JsonWebKey).d : format === 'pkcs8';
+  if (await hasNativeSupport(curve)) {
+    return format === 'jwk'
+      ? window.crypto.subtle.importKey('jwk', keyData as JsonWebKey, { name: curve }, true, [isPrivate ? 'sign' : 'verify'])
+      : window.crypto.subtle.importKey(format, keyData as Uint8Array, { name: curve }, true, [isPrivate ? 'sign' : 'verify']);
+  }
+
+  const length = curve === 'Ed25519' ? 32 : 57;
+  let publicKey: Uint8Array | undefined;
+  let seed: Uint8Array | undefined;
+  if (format === 'jwk') {
+    const jwk = keyData as JsonWebKey;
+    if (jwk.kty !== 'OKP' || jwk.crv !== curve || !jwk.x) {
+      throw new Error(`Expected an OKP JWK on ${curve}`);
+    }
+    publicKey = fromBase64Url(jwk.x);
+    seed = jwk.d ? fromBase64Url(jwk.d) : undefined;
+  } else {
+    const node = DER.expect(DER.decode(keyData as Uint8Array), Tag.SEQUENCE, 'EdDSA key');
+    if (format === 'spki') {
+      publicKey = DER.decodeBitString(node.children[1]).bytes;
+    } else {
+      const privateKey = DER.expect(node.children[2], Tag.OCTET_STRING, 'PrivateKey');
+      seed = DER.expect(DER.decode(privateKey.value), Tag.OCTET_STRING, 'CurvePrivateKey').value;
+    }
+  }
+
+  if (seed) {
+    if (seed.length !== length) {
+      throw new Error(`${curve} private key must be ${length} bytes`);
+    }
+    const derived = await getPublicKey(curve, seed);
+    if (publicKey && toBase64Url(publicKey) !== toBase64Url(derived)) {
+      throw new Error('JWK public and private components do not match');
+    }
+    return new SoftwareEdKey(curve, derived, seed);
+  }
+  if (!publicKey || publicKey.length !== length) {
+    throw new Error(`${curve} public key must be ${length} bytes`);
+  }
+  return new SoftwareEdKey(curve, publicKey);
+}
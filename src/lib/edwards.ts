@@ -0,0 +1,271 @@
+// Pure TypeScript EdDSA (RFC 8032) for Ed25519 and Ed448, used where WebCrypto lacks them.
+// BigInt arithmetic is not constant-time; native WebCrypto keys are preferred whenever available.
+import { concatBytes } from './encoding';
+import { shake256 } from './sha3';
+
+export type EdCurve = 'Ed25519' | 'Ed448';
+
+// Projective point (X : Y : Z), with T = XY/Z for the extended Ed25519 coordinates
+interface Point {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+  t: bigint;
+}
+
+interface CurveParams {
+  p: bigint;
+  d: bigint;
+  // Group order L
+  order: bigint;
+  // Encoded length of points and scalars
+  length: number;
+  base: Point;
+  add(a: Point, b: Point): Point;
+  // Hash of the private key seed, and of signature inputs (which Ed448 prefixes with dom4)
+  expand(seed: Uint8Array): Promise<Uint8Array>;
+  hash(data: Uint8Array): Promise<Uint8Array>;
+  clamp(bytes: Uint8Array): Uint8Array;
+  // Square root step of point decoding; null when y is not on the curve
+  recoverX(y: bigint): bigint | null;
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+  const result = value % modulus;
+  return result >= 0n ? result : result + modulus;
+}
+
+function power(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base = mod(base, modulus);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function invert(value: bigint, modulus: bigint): bigint {
+  return power(value, modulus - 2n, modulus);
+}
+
+function bytesToNumber(bytes: Uint8Array): bigint {
+  let result = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+function numberToBytes(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+// Ed25519: twisted Edwards curve -x^2 + y^2 = 1 + d x^2 y^2 over 2^255 - 19
+const P25519 = 2n ** 255n - 19n;
+const D25519 = mod(-121665n * invert(121666n, P25519), P25519);
+const SQRT_M1_25519 = power(2n, (P25519 - 1n) / 4n, P25519);
+
+const ED25519: CurveParams = {
+  p: P25519,
+  d: D25519,
+  order: 2n ** 252n + 27742317777372353535851937790883648493n,
+  length: 32,
+  base: { x: 0n, y: 0n, z: 0n, t: 0n },
+  // Unified addition in extended coordinates (RFC 8032 section 5.1.4)
+  add(a, b) {
+    const p = P25519;
+    const A = ((a.y - a.x) * (b.y - b.x)) % p;
+    const B = ((a.y + a.x) * (b.y + b.x)) % p;
+    const C = (a.t * 2n * D25519 * b.t) % p;
+    const D = (a.z * 2n * b.z) % p;
+    const E = B - A;
+    const F = D - C;
+    const G = D + C;
+    const H = B + A;
+    return { x: mod(E * F, p), y: mod(G * H, p), t: mod(E * H, p), z: mod(F * G, p) };
+  },
+  expand: async seed => new Uint8Array(await window.crypto.subtle.digest('SHA-512', seed)),
+  hash: async data => new Uint8Array(await window.crypto.subtle.digest('SHA-512', data)),
+  clamp(bytes) {
+    const scalar = bytes.slice(0, 32);
+    scalar[0] &= 0xf8;
+    scalar[31] &= 0x7f;
+    scalar[31] |= 0x40;
+    return scalar;
+  },
+  recoverX(y) {
+    const p = P25519;
+    const u = mod(y * y - 1n, p);
+    const v = mod(D25519 * y * y + 1n, p);
+    let x = mod(u * power(v, 3n, p) * power(u * power(v, 7n, p), (p - 5n) / 8n, p), p);
+    const check = mod(v * x * x, p);
+    if (check === mod(-u, p)) {
+      x = mod(x * SQRT_M1_25519, p);
+    } else if (check !== u) {
+      return null;
+    }
+    return x;
+  },
+};
+
+// Ed448: untwisted Edwards curve x^2 + y^2 = 1 + d x^2 y^2 over 2^448 - 2^224 - 1
+const P448 = 2n ** 448n - 2n ** 224n - 1n;
+const D448 = P448 - 39081n;
+
+// dom4(0, "") from RFC 8032 section 5.2: pure Ed448 with an empty context
+const DOM4 = concatBytes(new TextEncoder().encode('SigEd448'), new Uint8Array([0, 0]));
+
+const ED448: CurveParams = {
+  p: P448,
+  d: D448,
+  order: 2n ** 446n - 13818066809895115352007386748515426880336692474882178609894547503885n,
+  length: 57,
+  base: {
+    x: 224580040295924300187604334099896036246789641632564134246125461686950415467406032909029192869357953282578032075146446173674602635247710n,
+    y: 298819210078481492676017930443930673437544040154080242095928241372331506189835876003536878655418784733982303233503462500531545062832660n,
+    z: 1n,
+    t: 0n,
+  },
+  // Unified addition in projective coordinates (RFC 8032 section 5.2.4)
+  add(a, b) {
+    const p = P448;
+    const A = (a.z * b.z) % p;
+    const B = (A * A) % p;
+    const C = (a.x * b.x) % p;
+    const D = (a.y * b.y) % p;
+    const E = (D448 * C % p) * D % p;
+    const F = B - E;
+    const G = B + E;
+    const H = ((a.x + a.y) * (b.x + b.y)) % p;
+    return { x: mod(A * F % p * (H - C - D), p), y: mod(A * G % p * (D - C), p), z: mod(F * G, p), t: 0n };
+  },
+  expand: async seed => shake256(seed, 114),
+  hash: async data => shake256(concatBytes(DOM4, data), 114),
+  clamp(bytes) {
+    const scalar = bytes.slice(0, 57);
+    scalar[0] &= 0xfc;
+    scalar[56] = 0;
+    scalar[55] |= 0x80;
+    return scalar;
+  },
+  recoverX(y) {
+    const p = P448;
+    const u = mod(y * y - 1n, p);
+    const v = mod(D448 * y * y - 1n, p);
+    const x = mod(power(u, 3n, p) * v % p * power(power(u, 5n, p) * power(v, 3n, p), (p - 3n) / 4n, p), p);
+    return mod(v * x * x, p) === u ? x : null;
+  },
+};
+
+// The Ed25519 base point has y = 4/5 and an even x
+ED25519.base = (() => {
+  const y = mod(4n * invert(5n, P25519), P25519);
+  const x = ED25519.recoverX(y)!;
+  const even = x & 1n ? P25519 - x : x;
+  return { x: even, y, z: 1n, t: mod(even * y, P25519) };
+})();
+
+const CURVES: Record<EdCurve, CurveParams> = { Ed25519: ED25519, Ed448: ED448 };
+
+function multiply(curve: CurveParams, point: Point, scalar: bigint): Point {
+  let result: Point = { x: 0n, y: 1n, z: 1n, t: 0n };
+  let addend = point;
+  while (scalar > 0n) {
+    if (scalar & 1n) result = curve.add(result, addend);
+    addend = curve.add(addend, addend);
+    scalar >>= 1n;
+  }
+  return result;
+}
+
+function encodePoint(curve: CurveParams, point: Point): Uint8Array {
+  const zInverse = invert(point.z, curve.p);
+  const x = mod(point.x * zInverse, curve.p);
+  const y = mod(point.y * zInverse, curve.p);
+  const bytes = numberToBytes(y, curve.length);
+  bytes[curve.length - 1] |= x & 1n ? 0x80 : 0;
+  return bytes;
+}
+
+function decodePoint(curve: CurveParams, bytes: Uint8Array): Point | null {
+  if (bytes.length !== curve.length) {
+    return null;
+  }
+  const copy = bytes.slice();
+  const sign = copy[curve.length - 1] >> 7;
+  copy[curve.length - 1] &= 0x7f;
+  if (curve === ED448 && copy[curve.length - 1] !== 0) {
+    return null;
+  }
+  const y = bytesToNumber(copy);
+  if (y >= curve.p) {
+    return null;
+  }
+  let x = curve.recoverX(y);
+  if (x === null || (x === 0n && sign === 1)) {
+    return null;
+  }
+  if (Number(x & 1n) !== sign) {
+    x = curve.p - x;
+  }
+  return { x, y, z: 1n, t: mod(x * y, curve.p) };
+}
+
+function pointsEqual(curve: CurveParams, a: Point, b: Point): boolean {
+  return mod(a.x * b.z - b.x * a.z, curve.p) === 0n && mod(a.y * b.z - b.y * a.z, curve.p) === 0n;
+}
+
+async function expandSeed(curve: CurveParams, seed: Uint8Array): Promise<{ scalar: bigint; prefix: Uint8Array }> {
+  if (seed.length !== curve.length) {
+    throw new Error(`Private key must be ${curve.length} bytes`);
+  }
+  const digest = await curve.expand(seed);
+  return { scalar: bytesToNumber(curve.clamp(digest)), prefix: digest.slice(curve.length) };
+}
+
+export async function getPublicKey(curveName: EdCurve, seed: Uint8Array): Promise<Uint8Array> {
+  const curve = CURVES[curveName];
+  const { scalar } = await expandSeed(curve, seed);
+  return encodePoint(curve, multiply(curve, curve.base, scalar));
+}
+
+export async function sign(curveName: EdCurve, seed: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  const curve = CURVES[curveName];
+  const { scalar, prefix } = await expandSeed(curve, seed);
+  const publicKey = encodePoint(curve, multiply(curve, curve.base, scalar));
+  const r = mod(bytesToNumber(await curve.hash(concatBytes(prefix, message))), curve.order);
+  const R = encodePoint(curve, multiply(curve, curve.base, r));
+  const k = mod(bytesToNumber(await curve.hash(concatBytes(R, publicKey, message))), curve.order);
+  const S = mod(r + k * scalar, curve.order);
+  return concatBytes(R, numberToBytes(S, curve.length));
+}
+
+export async function verify(
+  curveName: EdCurve,
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  message: Uint8Array
+): Promise<boolean> {
+  const curve = CURVES[curveName];
+  if (signature.length !== curve.length * 2) {
+    return false;
+  }
+  const A = decodePoint(curve, publicKey);
+  const R = decodePoint(curve, signature.subarray(0, curve.length));
+  const S = bytesToNumber(signature.subarray(curve.length));
+  if (!A || !R || S >= curve.order) {
+    return false;
+  }
+  const k = mod(
+    bytesToNumber(await curve.hash(concatBytes(signature.subarray(0, curve.length), publicKey, message))),
+    curve.order
+  );
+  return pointsEqual(curve, multiply(curve, curve.base, S), curve.add(R, multiply(curve, A, k)));
+}
@@ -0,0 +1,24 @@
+// Web Worker entry for hashFile: streams the posted file through the requested hashes
+import { HashWorkerMessage, HashWorkerRequest, hashStream } from './hashing';
+
+// Progress messages are throttled so the main thread is not flooded on fast disks
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: HashWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<HashWorkerRequest>) => {
+  const { file, algorithms, options } = event.data;
+  let lastReport = 0;
+  try {
+    const digests = await hashStream(file.stream(), algorithms, options, (bytesProcessed) => {
+      const now = Date.now();
+      if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        post({ type: 'progress', bytesProcessed });
+      }
+    });
+    post({ type: 'done', digests });
+  } catch (error) {
+    post({ type: 'error', message: `${error}` });
+  }
+};
@@ -0,0 +1,181 @@
+// Streaming file hashing: files are read chunk by chunk in a Web Worker, so multi-gigabyte input
+// never has to fit in memory and the page stays responsive
+import { IncrementalHash } from './digest';
+import { Md5 } from './md5';
+import { Sha1, Sha256, Sha512 } from './sha';
+import { Sha3, Shake } from './sha3';
+import { Blake2b, Blake2s } from './blake2';
+import { Blake3 } from './blake3';
+import { toHex } from './encoding';
+
+export type HashAlgorithm =
+  | 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+  | 'SHA3-224' | 'SHA3-256' | 'SHA3-384' | 'SHA3-512'
+  | 'SHAKE128' | 'SHAKE256'
+  | 'BLAKE2b-512' | 'BLAKE2s-256' | 'BLAKE3'
+  | 'MD5';
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = [
+  'SHA-1', 'SHA-256', 'SHA-384', 'SHA-512',
+  'SHA3-224', 'SHA3-256', 'SHA3-384', 'SHA3-512',
+  'SHAKE128', 'SHAKE256',
+  'BLAKE2b-512', 'BLAKE2s-256', 'BLAKE3',
+  'MD5',
+];
+
+// Digests Web Crypto implements natively; used for one-shot hashing of in-memory data
+export const WEBCRYPTO_DIGESTS: HashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+// Output lengths in bytes used for SHAKE when none is chosen: twice the security strength
+export const DEFAULT_SHAKE_LENGTHS: Record<'SHAKE128' | 'SHAKE256', number> = {
+  SHAKE128: 32,
+  SHAKE256: 64,
+};
+
+export function isExtendableOutput(algorithm: HashAlgorithm): algorithm is 'SHAKE128' | 'SHAKE256' {
+  return algorithm === 'SHAKE128' || algorithm === 'SHAKE256';
+}
+
+export interface HashOptions {
+  // Output length in bytes for SHAKE128/SHAKE256; ignored by fixed-length algorithms
+  outputLength?: number;
+}
+
+export interface HashProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+}
+
+export interface FileHashOptions extends HashOptions {
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+}
+
+export type HashDigests = Partial<Record<HashAlgorithm, string>>;
+
+export interface HashWorkerRequest {
+  file: Blob;
+  algorithms: HashAlgorithm[];
+  options: HashOptions;
+}
+
+export type HashWorkerMessage =
+  | { type: 'progress'; bytesProcessed: number }
+  | { type: 'done'; digests: HashDigests }
+  | { type: 'error'; message: string };
+
+export function createHash(algorithm: HashAlgorithm, options: HashOptions = {}): IncrementalHash {
+  if (isExtendableOutput(algorithm)) {
+    const outputLength = options.outputLength ?? DEFAULT_SHAKE_LENGTHS[algorithm];
+    if (!Number.isInteger(outputLength) || outputLength < 1) {
+      throw new Error('SHAKE output length must be a positive number of bytes');
+    }
+    return new Shake(algorithm === 'SHAKE128' ? 128 : 256, outputLength);
+  }
+  switch (algorithm) {
+    case 'SHA-1':
+      return new Sha1();
+    case 'SHA-256':
+      return new Sha256();
+    case 'SHA-384':
+      return new Sha512('SHA-384');
+    case 'SHA-512':
+      return new Sha512('SHA-512');
+    case 'SHA3-224':
+      return new Sha3(224);
+    case 'SHA3-256':
+      return new Sha3(256);
+    case 'SHA3-384':
+      return new Sha3(384);
+    case 'SHA3-512':
+      return new Sha3(512);
+    case 'BLAKE2b-512':
+      return new Blake2b();
+    case 'BLAKE2s-256':
+      return new Blake2s();
+    case 'BLAKE3':
+      return new Blake3();
+    case 'MD5':
+      return new Md5();
+    default:
+      throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+}
+
+// Hash a stream with several algorithms in one pass
+export async function hashStream(
+  stream: ReadableStream<Uint8Array>,
+  algorithms: HashAlgorithm[],
+  options: HashOptions = {},
+  onChunk?: (bytesProcessed: number) => void,
+  signal?: AbortSignal
+): Promise<HashDigests> {
+  const hashes = algorithms.map(algorithm => createHash(algorithm, options));
+  const reader = stream.getReader();
+  let bytesProcessed = 0;
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new Error('Hashing cancelled');
+      }
+      const { done, value } = await reader.read();
+      if (done) break;
+      hashes.forEach(hash => hash.update(value));
+      bytesProcessed += value.length;
+      onChunk?.(bytesProcessed);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  const digests: HashDigests = {};
+  algorithms.forEach((algorithm, i) => {
+    digests[algorithm] = toHex(hashes[i].digest());
+  });
+  return digests;
+}
+
+// Hash a file in a Web Worker; aborting the signal terminates the worker
+export function hashFile(file: Blob, algorithms: HashAlgorithm[], options: FileHashOptions = {}): Promise<HashDigests> {
+  const { onProgress, signal, outputLength } = options;
+  const report = (bytesProcessed: number) => onProgress?.({ bytesProcessed, totalBytes: file.size });
+
+  if (typeof Worker === 'undefined') {
+    return hashStream(file.stream(), algorithms, { outputLength }, report, signal);
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Hashing cancelled'));
+      return;
+    }
+    const worker = new Worker(new URL('./hashWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new Error('Hashing cancelled'));
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<HashWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        report(message.bytesProcessed);
+      } else if (message.type === 'done') {
+        finish();
+        report(file.size);
+        resolve(message.digests);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Hash worker failed'));
+    };
+    worker.postMessage({ file, algorithms, options: { outputLength } } as HashWorkerRequest);
+  });
+}
@@ -0,0 +1,57 @@
+// HMAC (RFC 2104) over the SHA-1/SHA-2 digests Web Crypto implements
+import { HashAlgorithm } from './hashing';
+import { fromBase64, fromHex } from './encoding';
+import { HASH_LENGTHS } from './x509';
+
+export type HmacAlgorithm = Extract<HashAlgorithm, 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'>;
+
+export const HMAC_ALGORITHMS: HmacAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+export type MacKeyEncoding = 'text' | 'hex' | 'base64';
+
+export function decodeMacKey(key: string, encoding: MacKeyEncoding): Uint8Array {
+  switch (encoding) {
+    case 'text':
+      return new TextEncoder().encode(key);
+    case 'hex':
+      return fromHex(key);
+    case 'base64':
+      return fromBase64(key.trim());
+  }
+}
+
+// A random key as long as the digest, the minimum RFC 2104 recommends
+export function generateMacKey(algorithm: HmacAlgorithm): Uint8Array {
+  return window.crypto.getRandomValues(new Uint8Array(HASH_LENGTHS[algorithm]));
+}
+
+export async function computeHmac(algorithm: HmacAlgorithm, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (key.length === 0) {
+    throw new Error('HMAC key must not be empty');
+  }
+  const cryptoKey = await window.crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: algorithm }, false, ['sign']);
+  return new Uint8Array(await window.crypto.subtle.sign('HMAC', cryptoKey, data));
+}
+
+// Parse a MAC as hex or base64, accepting webhook header forms such as "sha256=<hex>" (GitHub) or "v1=<hex>" (Stripe)
+export function decodeMac(mac: string, algorithm: HmacAlgorithm): Uint8Array {
+  const value = mac.trim().replace(/^(sha1|sha256|sha384|sha512|v\d+)=/i, '');
+  const length = HASH_LENGTHS[algorithm];
+  if (value.length === length * 2 && /^[0-9a-fA-F]+$/.test(value)) {
+    return fromHex(value);
+  }
+  try {
+    return fromBase64(value.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    throw new Error('MAC must be hexadecimal or base64');
+  }
+}
+
+// Compare without an early exit so the time taken does not reveal how many leading bytes match
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i % b.length];
+  }
+  return difference === 0 && b.length > 0;
+}
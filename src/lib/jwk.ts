@@ -0,0 +1,96 @@
+// JSON Web Keys (RFC 7517): key IDs as RFC 7638 thumbprints, JWS algorithm names and JWK Sets
+import { toBase64Url } from './encoding';
+import { isEdKey } from './eddsa';
+import { isRsaKey } from './keys';
+
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: Jwk[];
+}
+
+// Required members of each key type, in the lexicographic order the thumbprint hashes them in
+const THUMBPRINT_MEMBERS: Record<string, (keyof JsonWebKey)[]> = {
+  RSA: ['e', 'kty', 'n'],
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x'],
+};
+
+const PUBLIC_MEMBERS: (keyof JsonWebKey)[] = ['kty', 'crv', 'n', 'e', 'x', 'y'];
+
+const RSA_JWS_ALGORITHMS: Record<string, Record<string, string>> = {
+  'RSA-PSS': { 'SHA-256': 'PS256', 'SHA-384': 'PS384', 'SHA-512': 'PS512' },
+  'RSASSA-PKCS1-v1_5': { 'SHA-256': 'RS256', 'SHA-384': 'RS384', 'SHA-512': 'RS512' },
+};
+
+const EC_JWS_ALGORITHMS: Record<string, string> = { 'P-256': 'ES256', 'P-384': 'ES384', 'P-521': 'ES512' };
+
+// The "alg" each key was imported or stored with; it fixes the RSA scheme that key's signatures use
+const pinnedAlgorithms = new WeakMap<CryptoKey, string>();
+
+export function pinJwsAlgorithm(key: CryptoKey, alg: string | undefined): CryptoKey {
+  if (alg) {
+    pinnedAlgorithms.set(key, alg);
+  }
+  return key;
+}
+
+export function pinnedJwsAlgorithm(key: CryptoKey): string | undefined {
+  return pinnedAlgorithms.get(key);
+}
+
+// WebCrypto parameters for an RSA JWK's "alg": RS* is PKCS#1 v1.5 and PS* is PSS, with the matching hash
+export function rsaImportParams(alg: string | undefined): RsaHashedImportParams | undefined {
+  for (const [name, algorithms] of Object.entries(RSA_JWS_ALGORITHMS)) {
+    const hash = Object.keys(algorithms).find(candidate => algorithms[candidate] === alg);
+    if (hash) {
+      return { name, hash };
+    }
+  }
+  return undefined;
+}
+
+// SHA-256 thumbprint of the public members, base64url encoded; identical for a private key and its public key
+export async function jwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  const members = THUMBPRINT_MEMBERS[jwk.kty ?? ''];
+  if (!members) {
+    throw new Error(`Unsupported JWK key type ${jwk.kty}`);
+  }
+  const canonical = '{' + members.map(member => {
+    if (jwk[member] === undefined) {
+      throw new Error(`JWK is missing the "${member}" member`);
+    }
+    return `${JSON.stringify(member)}:${JSON.stringify(jwk[member])}`;
+  }).join(',') + '}';
+  return toBase64Url(await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)));
+}
+
+// JWS "alg" for signatures made with the key, e.g. RS256, ES384 or EdDSA (RFC 8037). RSA keys sign with
+// PSS or PKCS#1 v1.5 as each signature chooses, so they only have one when it was pinned or WebCrypto binds
+// them to PKCS#1 v1.5; publishing PS256 for a key its owner signs RS256 with would break relying parties.
+export function jwsAlgorithm(key: CryptoKey): string | undefined {
+  const pinned = pinnedAlgorithms.get(key);
+  if (pinned) {
+    return pinned;
+  }
+  if (isEdKey(key)) {
+    return 'EdDSA';
+  }
+  if (isRsaKey(key)) {
+    return key.algorithm.name === 'RSASSA-PKCS1-v1_5'
+      ? RSA_JWS_ALGORITHMS[key.algorithm.name][(key.algorithm as RsaHashedKeyAlgorithm).hash.name]
+      : undefined;
+  }
+  return EC_JWS_ALGORITHMS[(key.algorithm as EcKeyAlgorithm).namedCurve];
+}
+
+// Only the public members, as published in a JWK Set
+export function publicJwk(jwk: JsonWebKey): Jwk {
+  return Object.fromEntries(PUBLIC_MEMBERS.filter(member => jwk[member] !== undefined).map(member => [member, jwk[member]]));
+}
+
+export function isJwkSet(value: unknown): value is JsonWebKeySet {
+  return typeof value === 'object' && value !== null && Array.isArray((value as JsonWebKeySet).keys);
+}
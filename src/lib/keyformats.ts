@@ -0,0 +1,206 @@
+// Key encodings WebCrypto cannot import directly: PKCS#1 RSA keys (RFC 8017 appendix A.1), SEC1 EC private keys
+// (RFC 5915) and bare DER, converted through ASN.1 to and from SubjectPublicKeyInfo and PKCS#8 PrivateKeyInfo
+import { DER, Tag } from './asn1';
+import { OID } from './oids';
+import { CURVE_NAMES, parseAlgorithmIdentifier } from './x509';
+import { fromBase64, fromPem } from './encoding';
+import { isRsaKey } from './keys';
+import { ENCRYPTED_PRIVATE_KEY_LABEL } from './pkcs8';
+
+export type PublicKeyFormat = 'spki' | 'pkcs1' | 'openssh';
+export type PrivateKeyFormat = 'pkcs8' | 'pkcs1' | 'sec1' | 'openssh';
+export type KeyFormat = PublicKeyFormat | PrivateKeyFormat;
+
+// Formats defined in ASN.1, written as PEM or as raw DER
+export type DerKeyFormat = Exclude<KeyFormat, 'openssh'>;
+
+export const KEY_FORMAT_NAMES: Record<KeyFormat, string> = {
+  spki: 'SPKI',
+  pkcs8: 'PKCS#8',
+  pkcs1: 'PKCS#1',
+  sec1: 'SEC1',
+  openssh: 'OpenSSH',
+};
+
+export interface DecodedKey {
+  // Encoding the key was supplied in
+  format: DerKeyFormat;
+  // SubjectPublicKeyInfo, PrivateKeyInfo, or EncryptedPrivateKeyInfo when encrypted
+  der: Uint8Array;
+  encrypted: boolean;
+}
+
+const PEM_LABELS: { label: string; type: 'public' | 'private'; format: DerKeyFormat }[] = [
+  { label: 'PUBLIC KEY', type: 'public', format: 'spki' },
+  { label: 'RSA PUBLIC KEY', type: 'public', format: 'pkcs1' },
+  { label: 'PRIVATE KEY', type: 'private', format: 'pkcs8' },
+  { label: 'RSA PRIVATE KEY', type: 'private', format: 'pkcs1' },
+  { label: 'EC PRIVATE KEY', type: 'private', format: 'sec1' },
+];
+
+const CURVE_OIDS: Record<string, string> = Object.fromEntries(
+  Object.entries(CURVE_NAMES).map(([oid, curve]) => [curve, oid])
+);
+
+export function pemLabel(type: 'public' | 'private', format: DerKeyFormat): string {
+  const entry = PEM_LABELS.find(candidate => candidate.type === type && candidate.format === format);
+  if (!entry) {
+    throw new Error(`A ${type} key cannot be written as ${KEY_FORMAT_NAMES[format]}`);
+  }
+  return entry.label;
+}
+
+// Formats a key can be exported in: PKCS#1 is RSA-only, SEC1 is for EC private keys and OpenSSH has no Ed448 keys
+export function keyFormatsFor(key: CryptoKey): KeyFormat[] {
+  const formats: KeyFormat[] = [key.type === 'private' ? 'pkcs8' : 'spki'];
+  if (isRsaKey(key)) {
+    formats.push('pkcs1');
+  }
+  if (key.algorithm.name === 'ECDSA' && key.type === 'private') {
+    formats.push('sec1');
+  }
+  if (key.algorithm.name !== 'Ed448') {
+    formats.push('openssh');
+  }
+  return formats;
+}
+
+// DER bytes, PEM text (leading "EC PARAMETERS" blocks from `openssl ecparam -genkey` are skipped) or bare Base64 DER
+function readKeyInput(input: string | ArrayBuffer | Uint8Array): { label?: string; der: Uint8Array } {
+  if (typeof input !== 'string') {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    return bytes[0] === 0x30 ? { der: bytes } : readKeyInput(new TextDecoder().decode(bytes));
+  }
+  if (/Proc-Type:\s*4,ENCRYPTED/.test(input)) {
+    throw new Error('Legacy encrypted PEM keys are not supported; convert the key with "openssl pkcs8 -topk8"');
+  }
+  const pem = input.replace(/-----BEGIN EC PARAMETERS-----[\s\S]*?-----END EC PARAMETERS-----/, '');
+  if (pem.includes('-----BEGIN')) {
+    return fromPem(pem);
+  }
+  if (!/^[A-Za-z0-9+/=\s]+$/.test(pem)) {
+    throw new Error('Unrecognised key format');
+  }
+  return { der: fromBase64(pem) };
+}
+
+function labelFormat(label: string, type: 'public' | 'private'): DerKeyFormat {
+  const entry = PEM_LABELS.find(candidate => candidate.label === label);
+  if (!entry || entry.type !== type) {
+    throw new Error(`Expected a ${type} key but found a "${label}" PEM block`);
+  }
+  return entry.format;
+}
+
+const rsaAlgorithm = () => DER.sequence(DER.oid(OID.rsaEncryption), DER.null());
+
+// SPKI or PKCS#1 RSAPublicKey, as PEM or DER, converted to SPKI
+export function decodePublicKey(input: string | ArrayBuffer | Uint8Array): DecodedKey {
+  const { label, der } = readKeyInput(input);
+  // RSAPublicKey is a SEQUENCE of two INTEGERs; SPKI starts with its AlgorithmIdentifier
+  const format = label
+    ? labelFormat(label, 'public')
+    : DER.expect(DER.decode(der), Tag.SEQUENCE, 'public key').children[0]?.tag === Tag.INTEGER ? 'pkcs1' : 'spki';
+  return {
+    format,
+    der: format === 'pkcs1' ? DER.sequence(rsaAlgorithm(), DER.bitString(der)) : der,
+    encrypted: false,
+  };
+}
+
+// PKCS#8 (plain or encrypted), PKCS#1 RSAPrivateKey or SEC1 ECPrivateKey, as PEM or DER, converted to PKCS#8
+export function decodePrivateKey(input: string | ArrayBuffer | Uint8Array): DecodedKey {
+  const { label, der } = readKeyInput(input);
+  if (label === ENCRYPTED_PRIVATE_KEY_LABEL) {
+    return { format: 'pkcs8', der, encrypted: true };
+  }
+
+  let format: DerKeyFormat;
+  if (label) {
+    format = labelFormat(label, 'private');
+  } else {
+    // Told apart by their first two fields: EncryptedPrivateKeyInfo { AlgorithmIdentifier, OCTET STRING },
+    // PrivateKeyInfo { INTEGER, AlgorithmIdentifier }, ECPrivateKey { INTEGER, OCTET STRING }, RSAPrivateKey { INTEGER, INTEGER }
+    const [first, second] = DER.expect(DER.decode(der), Tag.SEQUENCE, 'private key').children;
+    if (first?.tag === Tag.SEQUENCE) {
+      return { format: 'pkcs8', der, encrypted: true };
+    }
+    format = second?.tag === Tag.OCTET_STRING ? 'sec1' : second?.tag === Tag.INTEGER ? 'pkcs1' : 'pkcs8';
+  }
+
+  switch (format) {
+    case 'pkcs1':
+      return { format, der: DER.sequence(DER.integer(0), rsaAlgorithm(), DER.octetString(der)), encrypted: false };
+    case 'sec1':
+      return { format, der: pkcs8FromSec1(der), encrypted: false };
+    default:
+      return { format, der, encrypted: false };
+  }
+}
+
+// The curve moves from the ECPrivateKey's parameters into the PKCS#8 AlgorithmIdentifier, as RFC 5915 section 3 asks
+function pkcs8FromSec1(sec1: Uint8Array): Uint8Array {
+  const node = DER.expect(DER.decode(sec1), Tag.SEQUENCE, 'ECPrivateKey');
+  const privateKey = DER.expect(node.children[1], Tag.OCTET_STRING, 'ECPrivateKey privateKey');
+  const parameters = DER.contextChild(node, 0);
+  const publicKey = DER.contextChild(node, 1);
+  if (!parameters || parameters.children[0]?.tag !== Tag.OID) {
+    throw new Error('EC private key has no named curve');
+  }
+  const curveOid = DER.decodeOid(parameters.children[0]);
+  if (!CURVE_NAMES[curveOid]) {
+    throw new Error(`Unsupported elliptic curve ${curveOid}`);
+  }
+  const ecPrivateKey = DER.sequence(DER.integer(1), privateKey.raw, ...(publicKey ? [publicKey.raw] : []));
+  return DER.sequence(
+    DER.integer(0),
+    DER.sequence(DER.oid(OID.ecPublicKey), DER.oid(curveOid)),
+    DER.octetString(ecPrivateKey)
+  );
+}
+
+// Re-encode a key from its SPKI and, for private keys, PKCS#8 encoding
+export function encodeKey(format: DerKeyFormat, spki: Uint8Array, pkcs8?: Uint8Array): Uint8Array {
+  const publicKeyInfo = DER.expect(DER.decode(spki), Tag.SEQUENCE, 'SubjectPublicKeyInfo');
+  const algorithm = parseAlgorithmIdentifier(publicKeyInfo.children[0]);
+  const isRsa = algorithm.oid === OID.rsaEncryption || algorithm.oid === OID.rsassaPss;
+  // Rejects PKCS#8 or SEC1 for public keys and SPKI for private ones
+  pemLabel(pkcs8 ? 'private' : 'public', format);
+
+  switch (format) {
+    case 'spki':
+      return spki;
+    case 'pkcs8':
+      return pkcs8!;
+    case 'pkcs1': {
+      if (!isRsa) {
+        throw new Error('PKCS#1 is only defined for RSA keys');
+      }
+      return pkcs8
+        ? DER.expect(DER.decode(pkcs8).children[2], Tag.OCTET_STRING, 'PrivateKey').value
+        : DER.decodeBitString(publicKeyInfo.children[1]).bytes;
+    }
+    case 'sec1': {
+      if (algorithm.oid !== OID.ecPublicKey || algorithm.parameters?.tag !== Tag.OID) {
+        throw new Error('SEC1 is only defined for EC keys');
+      }
+      // OpenSSL writes the curve and public key into the ECPrivateKey; WebCrypto's PKCS#8 may omit the latter
+      const ecPrivateKey = DER.decode(DER.expect(DER.decode(pkcs8!).children[2], Tag.OCTET_STRING, 'PrivateKey').value);
+      return DER.sequence(
+        DER.integer(1),
+        DER.expect(ecPrivateKey.children[1], Tag.OCTET_STRING, 'ECPrivateKey privateKey').raw,
+        DER.explicit(0, algorithm.parameters.raw),
+        DER.explicit(1, publicKeyInfo.children[1].raw)
+      );
+    }
+  }
+}
+
+// Curve OID for the curves WebCrypto supports
+export function curveOid(curve: string): string {
+  const oid = CURVE_OIDS[curve];
+  if (!oid) {
+    throw new Error(`Unsupported elliptic curve ${curve}`);
+  }
+  return oid;
+}
@@ -0,0 +1,151 @@
+// Key algorithm detection for SPKI / PKCS#8 keys and the matching WebCrypto parameters
+import { DER, Tag } from './asn1';
+import { OID, oidName } from './oids';
+import { CURVE_HASHES, CURVE_NAMES, CURVE_SIZES, HASH_LENGTHS, parseAlgorithmIdentifier } from './x509';
+import { EdCurve, exportEdJwk, importEdKey, isEdKey } from './eddsa';
+
+export type EcCurve = 'P-256' | 'P-384' | 'P-521';
+
+export const EC_CURVES: EcCurve[] = ['P-256', 'P-384', 'P-521'];
+
+export type RsaSignatureScheme = 'RSA-PSS' | 'RSASSA-PKCS1-v1_5';
+
+export const RSA_SIGNATURE_SCHEMES: RsaSignatureScheme[] = ['RSA-PSS', 'RSASSA-PKCS1-v1_5'];
+
+export type RsaHash = 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export const RSA_HASHES: RsaHash[] = ['SHA-256', 'SHA-384', 'SHA-512'];
+
+export type KeyAlgorithmInfo =
+  | { type: 'RSA' }
+  | { type: 'EC'; curve: EcCurve }
+  | { type: 'EdDSA'; curve: EdCurve };
+
+// Read the AlgorithmIdentifier of a SubjectPublicKeyInfo or PrivateKeyInfo
+export function detectKeyAlgorithm(der: Uint8Array, format: 'spki' | 'pkcs8'): KeyAlgorithmInfo {
+  const node = DER.expect(DER.decode(der), Tag.SEQUENCE, format === 'spki' ? 'SubjectPublicKeyInfo' : 'PrivateKeyInfo');
+  const algorithm = parseAlgorithmIdentifier(node.children[format === 'spki' ? 0 : 1]);
+  switch (algorithm.oid) {
+    case OID.rsaEncryption:
+    case OID.rsassaPss:
+      return { type: 'RSA' };
+    case OID.ecPublicKey: {
+      const curveOid = algorithm.parameters?.tag === Tag.OID ? DER.decodeOid(algorithm.parameters) : undefined;
+      const curve = curveOid ? CURVE_NAMES[curveOid] : undefined;
+      if (!curve) {
+        throw new Error(`Unsupported elliptic curve ${curveOid ? oidName(curveOid) : '(explicit parameters)'}`);
+      }
+      return { type: 'EC', curve: curve as EcCurve };
+    }
+    case OID.ed25519:
+      return { type: 'EdDSA', curve: 'Ed25519' };
+    case OID.ed448:
+      return { type: 'EdDSA', curve: 'Ed448' };
+    default:
+      throw new Error(`Unsupported key algorithm ${oidName(algorithm.oid)}`);
+  }
+}
+
+// Import parameters for signing keys: RSA keys default to RSA-PSS with SHA-256.
+// EdDSA keys are imported through ./eddsa, which falls back to a software implementation.
+export function signingImportParams(info: KeyAlgorithmInfo): RsaHashedImportParams | EcKeyImportParams {
+  if (info.type === 'EdDSA') {
+    throw new Error('EdDSA keys must be imported with importEdKey');
+  }
+  return info.type === 'EC'
+    ? { name: 'ECDSA', namedCurve: info.curve }
+    : { name: 'RSA-PSS', hash: 'SHA-256' };
+}
+
+// Per-signature parameters for a key's algorithm; RSA-PSS salts default to the digest length
+export function signatureParams(key: CryptoKey, saltLength?: number): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
+  if (key.algorithm.name === 'ECDSA') {
+    return { name: 'ECDSA', hash: CURVE_HASHES[(key.algorithm as EcKeyAlgorithm).namedCurve] };
+  }
+  if (key.algorithm.name === 'RSASSA-PKCS1-v1_5') {
+    return { name: 'RSASSA-PKCS1-v1_5' };
+  }
+  return { name: 'RSA-PSS', saltLength: saltLength ?? HASH_LENGTHS[(key.algorithm as RsaHashedKeyAlgorithm).hash.name] };
+}
+
+export function isRsaKey(key: CryptoKey): boolean {
+  return (RSA_SIGNATURE_SCHEMES as string[]).includes(key.algorithm.name);
+}
+
+// WebCrypto binds an RSA key to one scheme and hash, so switching either re-imports the (extractable) key.
+// Keys of other algorithms are returned unchanged.
+export async function withRsaScheme(key: CryptoKey, scheme: RsaSignatureScheme, hash?: RsaHash): Promise<CryptoKey> {
+  if (!isRsaKey(key)) {
+    return key;
+  }
+  const current = (key.algorithm as RsaHashedKeyAlgorithm).hash.name;
+  if (key.algorithm.name === scheme && (!hash || hash === current)) {
+    return key;
+  }
+  if (!key.extractable) {
+    throw new Error(`Key is not extractable and cannot be used with ${scheme} ${hash ?? current}`);
+  }
+  const format = key.type === 'private' ? 'pkcs8' : 'spki';
+  return window.crypto.subtle.importKey(
+    format,
+    await window.crypto.subtle.exportKey(format, key),
+    { name: scheme, hash: hash ?? current },
+    true,
+    key.usages
+  );
+}
+
+// Modulus length for RSA keys, field size of the curve for EC and EdDSA keys
+export function keySizeOf(key: CryptoKey): number {
+  const curve = keyCurve(key);
+  return curve ? CURVE_SIZES[curve] : (key.algorithm as RsaHashedKeyAlgorithm).modulusLength;
+}
+
+// Short human-readable description, e.g. "RSA-PSS 2048-bit", "ECDSA P-256" or "Ed25519"
+export function describeKey(key: CryptoKey): string {
+  if (isEdKey(key)) {
+    return key.algorithm.name;
+  }
+  if (key.algorithm.name === 'ECDSA') {
+    return `ECDSA ${(key.algorithm as EcKeyAlgorithm).namedCurve}`;
+  }
+  return `${key.algorithm.name} ${keySizeOf(key)}-bit`;
+}
+
+// Curve of an ECDSA or EdDSA key
+export function keyCurve(key: CryptoKey): string | undefined {
+  if (key.algorithm.name === 'ECDSA') {
+    return (key.algorithm as EcKeyAlgorithm).namedCurve;
+  }
+  return isEdKey(key) ? key.algorithm.name : undefined;
+}
+
+// Digest used inside the key's signatures: EdDSA hashes with SHA-512 (Ed25519) or SHAKE256 (Ed448)
+export function signatureHashOf(key: CryptoKey): string {
+  if (isEdKey(key)) {
+    return key.algorithm.name === 'Ed25519' ? 'SHA-512' : 'SHAKE256';
+  }
+  if (key.algorithm.name === 'ECDSA') {
+    return CURVE_HASHES[(key.algorithm as EcKeyAlgorithm).namedCurve];
+  }
+  return (key.algorithm as RsaHashedKeyAlgorithm).hash.name;
+}
+
+// Private JWK members, stripped to derive the public half of an extractable private key
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'] as const;
+
+// WebCrypto cannot export SPKI from a private key, but the private JWK carries the public components
+export async function publicKeyFromPrivate(privateKey: CryptoKey): Promise<CryptoKey> {
+  if (privateKey.type === 'public') {
+    return privateKey;
+  }
+  const jwk = isEdKey(privateKey) ? await exportEdJwk(privateKey) : await window.crypto.subtle.exportKey('jwk', privateKey);
+  for (const member of PRIVATE_JWK_MEMBERS) {
+    delete jwk[member];
+  }
+  jwk.key_ops = ['verify'];
+  if (isEdKey(privateKey)) {
+    return importEdKey('jwk', jwk, privateKey.algorithm.name as EdCurve);
+  }
+  return window.crypto.subtle.importKey('jwk', jwk, privateKey.algorithm as RsaHashedImportParams | EcKeyImportParams, true, ['verify']);
+}
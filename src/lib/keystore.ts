@@ -0,0 +1,265 @@
+// Persistent keystore in IndexedDB. CryptoKey objects are stored as they are (structured clone), so a
+// private key saved as non-extractable can still sign after a reload but its material cannot be read back.
+// Once a vault exists, keys are instead sealed in it as JWKs and re-imported on unlock. The exception is non-extractable
+// private keys, which have no JWK to seal: the CryptoKey stays in the plaintext store under its id alone, while its
+// label and other metadata are sealed. Such a key can sign for anyone with access to the browser profile, even while
+// the vault is locked, but its material still cannot be read.
+import { describeKey, isRsaKey } from './keys';
+import {
+  ED_CURVES,
+  EdCurve,
+  SoftwareEdKeyData,
+  exportEdJwk,
+  hasNativeSupport,
+  importEdKey,
+  isEdKey,
+  softwareEdKeyData,
+  softwareEdKeyFromData,
+} from './eddsa';
+import { KEY_STORE, withStore } from './database';
+import { pinJwsAlgorithm, pinnedJwsAlgorithm } from './jwk';
+import {
+  VaultRecordInput,
+  deleteVaultRecord,
+  hasVault,
+  isVaultUnlocked,
+  listVaultRecords,
+  putVaultRecord,
+  vaultEvents,
+} from './vault';
+
+const VAULT_COLLECTION = 'keys';
+
+export interface StoredKey {
+  id: string;
+  label: string;
+  createdAt: string;
+  algorithm: string;
+  usages: KeyUsage[];
+  // Whether the private key can be exported; public keys always can
+  extractable: boolean;
+  // JWS "alg" the key was imported with, pinned again on the loaded keys so JWKs keep it
+  alg?: string;
+  publicKey: CryptoKey;
+  privateKey?: CryptoKey;
+}
+
+export interface StoreKeyOptions {
+  extractable?: boolean;
+}
+
+// Software EdDSA keys are plain objects and are stored as their raw key material
+type StoredKeyMaterial = CryptoKey | { software: SoftwareEdKeyData };
+
+interface KeyRecord extends Omit<StoredKey, 'publicKey' | 'privateKey'> {
+  publicKey: StoredKeyMaterial;
+  privateKey?: StoredKeyMaterial;
+}
+
+// A key as sealed in the vault, with the parameters needed to import its JWKs again
+interface SealedKeyRecord extends Omit<StoredKey, 'publicKey' | 'privateKey'> {
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  publicKey: JsonWebKey;
+  privateKey?: JsonWebKey;
+  // The private key is non-extractable and held in the plaintext store as a KeyHandleRecord
+  privateKeyHandle?: boolean;
+}
+
+// A non-extractable private key kept outside the vault, found by the id of its sealed record
+export interface KeyHandleRecord {
+  id: string;
+  privateKey: CryptoKey;
+}
+
+// The plaintext keystore converted for a new vault
+export interface KeystoreVaultMigration {
+  records: VaultRecordInput[];
+  // Non-extractable private keys, which stay in the plaintext store
+  handles: KeyHandleRecord[];
+}
+
+// Fired with type 'change' whenever keys are added or removed, or become (un)available as the vault is locked
+export const keystoreEvents = new EventTarget();
+
+vaultEvents.addEventListener('change', () => keystoreEvents.dispatchEvent(new Event('change')));
+
+function toMaterial(key: CryptoKey): StoredKeyMaterial {
+  const software = softwareEdKeyData(key);
+  return software ? { software } : key;
+}
+
+function fromMaterial(material: StoredKeyMaterial): CryptoKey {
+  return 'software' in material ? softwareEdKeyFromData(material.software) : material;
+}
+
+function fromRecord(record: KeyRecord): StoredKey {
+  return {
+    ...record,
+    publicKey: pinJwsAlgorithm(fromMaterial(record.publicKey), record.alg),
+    privateKey: record.privateKey && pinJwsAlgorithm(fromMaterial(record.privateKey), record.alg),
+  };
+}
+
+function importParamsOf(key: CryptoKey): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  if (isRsaKey(key)) {
+    return { name: key.algorithm.name, hash: (key.algorithm as RsaHashedKeyAlgorithm).hash.name };
+  }
+  if (key.algorithm.name === 'ECDSA') {
+    return { name: 'ECDSA', namedCurve: (key.algorithm as EcKeyAlgorithm).namedCurve };
+  }
+  return { name: key.algorithm.name };
+}
+
+async function exportJwk(key: CryptoKey): Promise<JsonWebKey> {
+  return isEdKey(key) ? exportEdJwk(key) : window.crypto.subtle.exportKey('jwk', key);
+}
+
+async function importJwk(jwk: JsonWebKey, params: SealedKeyRecord['importParams'], extractable: boolean): Promise<CryptoKey> {
+  const usages = (jwk.key_ops ?? [jwk.d ? 'sign' : 'verify']) as KeyUsage[];
+  const curve = params.name as EdCurve;
+  if ((ED_CURVES as string[]).includes(curve) && (extractable || !(await hasNativeSupport(curve)))) {
+    return importEdKey('jwk', jwk, curve);
+  }
+  return window.crypto.subtle.importKey('jwk', jwk, params, extractable, usages);
+}
+
+async function sealKey(stored: StoredKey): Promise<SealedKeyRecord> {
+  const handle = stored.privateKey && !stored.privateKey.extractable;
+  return {
+    id: stored.id,
+    label: stored.label,
+    createdAt: stored.createdAt,
+    algorithm: stored.algorithm,
+    usages: stored.usages,
+    extractable: stored.extractable,
+    alg: stored.alg,
+    importParams: importParamsOf(stored.publicKey),
+    publicKey: await exportJwk(stored.publicKey),
+    ...(handle ? { privateKeyHandle: true } : { privateKey: stored.privateKey && await exportJwk(stored.privateKey) }),
+  };
+}
+
+async function unsealKey(record: SealedKeyRecord, handles: Map<string, CryptoKey>): Promise<StoredKey> {
+  const { importParams, publicKey, privateKey, privateKeyHandle, ...metadata } = record;
+  let unsealedPrivateKey = privateKey && await importJwk(privateKey, importParams, record.extractable);
+  if (privateKeyHandle) {
+    unsealedPrivateKey = handles.get(record.id);
+    if (!unsealedPrivateKey) {
+      throw new Error(`The non-extractable private key of "${record.label}" is missing from the keystore`);
+    }
+  }
+  return {
+    ...metadata,
+    publicKey: pinJwsAlgorithm(await importJwk(publicKey, importParams, true), record.alg),
+    privateKey: unsealedPrivateKey && pinJwsAlgorithm(unsealedPrivateKey, record.alg),
+  };
+}
+
+function listKeyHandles(): Promise<KeyHandleRecord[]> {
+  return withStore<KeyHandleRecord[]>(KEY_STORE, 'readonly', store => store.getAll());
+}
+
+// Re-import a private key so WebCrypto refuses any later export of it
+async function makeNonExtractable(privateKey: CryptoKey): Promise<CryptoKey> {
+  if (!privateKey.extractable) {
+    return privateKey;
+  }
+  if (softwareEdKeyData(privateKey)) {
+    throw new Error(`This browser has no native ${privateKey.algorithm.name} support, so the key cannot be stored non-extractable`);
+  }
+  return window.crypto.subtle.importKey(
+    'pkcs8',
+    await window.crypto.subtle.exportKey('pkcs8', privateKey),
+    privateKey.algorithm as RsaHashedImportParams | EcKeyImportParams,
+    false,
+    privateKey.usages
+  );
+}
+
+// Rejects while the vault is locked
+export async function listStoredKeys(): Promise<StoredKey[]> {
+  let keys: StoredKey[];
+  if (await hasVault()) {
+    const records = await listVaultRecords<SealedKeyRecord>(VAULT_COLLECTION);
+    const handles = new Map((await listKeyHandles()).map(handle => [handle.id, handle.privateKey]));
+    keys = await Promise.all(records.map(record => unsealKey(record, handles)));
+  } else {
+    keys = (await withStore<KeyRecord[]>(KEY_STORE, 'readonly', store => store.getAll())).map(fromRecord);
+  }
+  return keys.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getStoredKey(id: string): Promise<StoredKey | undefined> {
+  return (await listStoredKeys()).find(stored => stored.id === id);
+}
+
+// The plaintext keystore sealed for a new vault, keeping non-extractable private keys as handles
+export async function keystoreVaultMigration(): Promise<KeystoreVaultMigration> {
+  const stored = (await withStore<KeyRecord[]>(KEY_STORE, 'readonly', store => store.getAll())).map(fromRecord);
+  return {
+    records: await Promise.all(stored.map(async key => ({ collection: VAULT_COLLECTION, id: key.id, value: await sealKey(key) }))),
+    handles: stored
+      .filter(key => key.privateKey && !key.privateKey.extractable)
+      .map(key => ({ id: key.id, privateKey: key.privateKey! })),
+  };
+}
+
+// Store a key pair, or a lone public key for verification
+export async function storeKeyPair(
+  label: string,
+  keys: { publicKey: CryptoKey; privateKey?: CryptoKey },
+  options: StoreKeyOptions = {}
+): Promise<StoredKey> {
+  const extractable = options.extractable ?? true;
+  const privateKey = keys.privateKey && !extractable ? await makeNonExtractable(keys.privateKey) : keys.privateKey;
+  const alg = pinnedJwsAlgorithm(keys.publicKey) ?? (keys.privateKey && pinnedJwsAlgorithm(keys.privateKey));
+  const stored: StoredKey = {
+    id: window.crypto.randomUUID(),
+    label: label.trim() || describeKey(keys.publicKey),
+    createdAt: new Date().toISOString(),
+    algorithm: describeKey(keys.publicKey),
+    usages: [...new Set([...keys.publicKey.usages, ...(privateKey?.usages ?? [])])],
+    extractable: privateKey ? privateKey.extractable : true,
+    alg,
+    publicKey: pinJwsAlgorithm(keys.publicKey, alg),
+    privateKey: privateKey && pinJwsAlgorithm(privateKey, alg),
+  };
+  if (await hasVault()) {
+    if (!isVaultUnlocked()) {
+      throw new Error('The vault is locked');
+    }
+    const sealed = await sealKey(stored);
+    // The handle goes first, so the sealed record never points at a missing key; it is removed again if sealing fails
+    if (sealed.privateKeyHandle) {
+      const handle: KeyHandleRecord = { id: stored.id, privateKey: stored.privateKey! };
+      await withStore(KEY_STORE, 'readwrite', store => store.put(handle));
+    }
+    try {
+      await putVaultRecord(VAULT_COLLECTION, stored.id, sealed);
+    } catch (error) {
+      if (sealed.privateKeyHandle) {
+        await withStore(KEY_STORE, 'readwrite', store => store.delete(stored.id));
+      }
+      throw error;
+    }
+  } else {
+    const record: KeyRecord = {
+      ...stored,
+      publicKey: toMaterial(stored.publicKey),
+      privateKey: stored.privateKey && toMaterial(stored.privateKey),
+    };
+    await withStore(KEY_STORE, 'readwrite', store => store.add(record));
+  }
+  keystoreEvents.dispatchEvent(new Event('change'));
+  return stored;
+}
+
+export async function deleteStoredKey(id: string): Promise<void> {
+  if (await hasVault()) {
+    await deleteVaultRecord(VAULT_COLLECTION, id);
+    await withStore(KEY_STORE, 'readwrite', store => store.delete(id));
+  } else {
+    await withStore(KEY_STORE, 'readwrite', store => store.delete(id));
+  }
+  keystoreEvents.dispatchEvent(new Event('change'));
+}
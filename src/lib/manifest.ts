@@ -0,0 +1,177 @@
+// Checksum manifests as written by GNU coreutils (`sha256sum`, `b2sum`, ...) and in the BSD tagged format (`sha256sum --tag`, `openssl dgst`)
+import { HashAlgorithm } from './hashing';
+
+export type ManifestStyle = 'gnu' | 'bsd';
+
+export interface ManifestEntry {
+  fileName: string;
+  hash: string;
+  algorithm: HashAlgorithm;
+  line: number;
+}
+
+// Algorithm names used in BSD-style tagged lines: `SHA256 (file) = hash`
+const BSD_TAGS: Record<HashAlgorithm, string> = {
+  'MD5': 'MD5',
+  'SHA-1': 'SHA1',
+  'SHA-256': 'SHA256',
+  'SHA-384': 'SHA384',
+  'SHA-512': 'SHA512',
+  'SHA3-224': 'SHA3-224',
+  'SHA3-256': 'SHA3-256',
+  'SHA3-384': 'SHA3-384',
+  'SHA3-512': 'SHA3-512',
+  'SHAKE128': 'SHAKE128',
+  'SHAKE256': 'SHAKE256',
+  'BLAKE2b-512': 'BLAKE2b',
+  'BLAKE2s-256': 'BLAKE2s',
+  'BLAKE3': 'BLAKE3',
+};
+
+// Conventional manifest file names, e.g. SHA256SUMS as published by Debian and Ubuntu
+const MANIFEST_NAMES: Record<HashAlgorithm, string> = {
+  'MD5': 'MD5SUMS',
+  'SHA-1': 'SHA1SUMS',
+  'SHA-256': 'SHA256SUMS',
+  'SHA-384': 'SHA384SUMS',
+  'SHA-512': 'SHA512SUMS',
+  'SHA3-224': 'SHA3-224SUMS',
+  'SHA3-256': 'SHA3-256SUMS',
+  'SHA3-384': 'SHA3-384SUMS',
+  'SHA3-512': 'SHA3-512SUMS',
+  'SHAKE128': 'SHAKE128SUMS',
+  'SHAKE256': 'SHAKE256SUMS',
+  'BLAKE2b-512': 'B2SUMS',
+  'BLAKE2s-256': 'B2SSUMS',
+  'BLAKE3': 'B3SUMS',
+};
+
+// Most common algorithm for each digest length, used when neither a tag nor the file name says otherwise
+const ALGORITHMS_BY_LENGTH: Record<number, HashAlgorithm> = {
+  32: 'MD5',
+  40: 'SHA-1',
+  56: 'SHA3-224',
+  64: 'SHA-256',
+  96: 'SHA-384',
+  128: 'SHA-512',
+};
+
+const DIGEST_LENGTHS: Partial<Record<HashAlgorithm, number>> = {
+  'MD5': 32,
+  'SHA-1': 40,
+  'SHA-256': 64,
+  'SHA-384': 96,
+  'SHA-512': 128,
+  'SHA3-224': 56,
+  'SHA3-256': 64,
+  'SHA3-384': 96,
+  'SHA3-512': 128,
+  'BLAKE2b-512': 128,
+  'BLAKE2s-256': 64,
+  'BLAKE3': 64,
+};
+
+const GNU_LINE = /^(\\?)([0-9a-fA-F]+) [ *](.+)$/;
+const BSD_LINE = /^(\\?)([A-Za-z0-9-]+) ?\((.+)\) ?= ?([0-9a-fA-F]+)$/;
+
+// Infer the algorithm from a manifest name such as SHA256SUMS, file.iso.sha512, B2SUMS or CHECKSUMS.md5
+export function algorithmFromManifestName(name: string): HashAlgorithm | undefined {
+  const lower = name.toLowerCase();
+  const sha3 = lower.match(/sha3-?(224|256|384|512)/);
+  if (sha3) return `SHA3-${sha3[1]}` as HashAlgorithm;
+  if (/b3sum|blake3|\.b3$/.test(lower)) return 'BLAKE3';
+  if (/b2ssum|blake2s/.test(lower)) return 'BLAKE2s-256';
+  if (/b2sum|blake2b|\.b2$/.test(lower)) return 'BLAKE2b-512';
+  const sha = lower.match(/sha(1|256|384|512)/);
+  if (sha) return (sha[1] === '1' ? 'SHA-1' : `SHA-${sha[1]}`) as HashAlgorithm;
+  if (/md5/.test(lower)) return 'MD5';
+  return undefined;
+}
+
+// Other spellings of the tags: b2sum --tag with an explicit length, and `openssl dgst` 3.x output
+const TAG_ALIASES: Record<string, HashAlgorithm> = {
+  'BLAKE2B-512': 'BLAKE2b-512',
+  'BLAKE2S-256': 'BLAKE2s-256',
+  'SHA2-256': 'SHA-256',
+  'SHA2-384': 'SHA-384',
+  'SHA2-512': 'SHA-512',
+};
+
+function algorithmFromTag(tag: string): HashAlgorithm | undefined {
+  const upper = tag.toUpperCase();
+  return (Object.keys(BSD_TAGS) as HashAlgorithm[]).find(algorithm => BSD_TAGS[algorithm].toUpperCase() === upper)
+    ?? TAG_ALIASES[upper];
+}
+
+// GNU tools prefix a line with a backslash when the file name contains a backslash or newline
+function unescapeFileName(name: string): string {
+  return name.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c));
+}
+
+function escapeFileName(name: string): { escaped: boolean; name: string } {
+  if (!/[\\\n]/.test(name)) {
+    return { escaped: false, name };
+  }
+  return { escaped: true, name: name.replace(/\\/g, '\\\\').replace(/\n/g, '\\n') };
+}
+
+// Parse a manifest; `manifestName` (e.g. SHA256SUMS) disambiguates digests of the same length
+export function parseManifest(text: string, manifestName?: string): ManifestEntry[] {
+  const hinted = manifestName ? algorithmFromManifestName(manifestName) : undefined;
+  const entries: ManifestEntry[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const bsd = line.match(BSD_LINE);
+    if (bsd) {
+      const algorithm = algorithmFromTag(bsd[2]);
+      if (!algorithm) {
+        throw new Error(`Line ${index + 1}: unsupported algorithm ${bsd[2]}`);
+      }
+      const fileName = bsd[1] ? unescapeFileName(bsd[3]) : bsd[3];
+      entries.push({ fileName, hash: bsd[4].toLowerCase(), algorithm, line: index + 1 });
+      return;
+    }
+
+    const gnu = line.match(GNU_LINE);
+    if (gnu) {
+      const hash = gnu[2].toLowerCase();
+      const algorithm = hinted && DIGEST_LENGTHS[hinted] === hash.length ? hinted : ALGORITHMS_BY_LENGTH[hash.length];
+      if (!algorithm) {
+        throw new Error(`Line ${index + 1}: cannot determine the algorithm of a ${hash.length * 4}-bit digest`);
+      }
+      const fileName = gnu[1] ? unescapeFileName(gnu[3]) : gnu[3];
+      entries.push({ fileName, hash, algorithm, line: index + 1 });
+      return;
+    }
+
+    throw new Error(`Line ${index + 1}: not a checksum line`);
+  });
+
+  if (entries.length === 0) {
+    throw new Error('Manifest contains no checksum lines');
+  }
+  return entries;
+}
+
+export function formatManifest(
+  entries: { fileName: string; hash: string }[],
+  algorithm: HashAlgorithm,
+  style: ManifestStyle
+): string {
+  return entries
+    .map(({ fileName, hash }) => {
+      const { escaped, name } = escapeFileName(fileName);
+      const prefix = escaped ? '\\' : '';
+      return style === 'gnu'
+        ? `${prefix}${hash}  ${name}`
+        : `${prefix}${BSD_TAGS[algorithm]} (${name}) = ${hash}`;
+    })
+    .join('\n') + '\n';
+}
+
+export function manifestFileName(algorithm: HashAlgorithm): string {
+  return MANIFEST_NAMES[algorithm];
+}
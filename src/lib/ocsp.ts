@@ -0,0 +1,418 @@
+// Online Certificate Status Protocol messages (RFC 6960)
+import { ASN1Node, DER, Tag, TagClass } from './asn1';
+import { OID } from './oids';
+import { bytesEqual, concatBytes } from './encoding';
+import {
+  AlgorithmIdentifierInfo,
+  DistinguishedName,
+  HASH_NAMES,
+  HASH_OIDS,
+  ParsedCertificate,
+  computeKeyIdentifier,
+  decodeDN,
+  decodeExtKeyUsage,
+  decodeExtensions,
+  encodeExtensions,
+  formatDN,
+  getExtension,
+  namesMatch,
+  parseAlgorithmIdentifier,
+  parseCertificate,
+  signStructure,
+  verifyCertificateSignature,
+  verifySignedData,
+} from './x509';
+
+export const OCSPResponseStatus = {
+  successful: 0,
+  malformedRequest: 1,
+  internalError: 2,
+  tryLater: 3,
+  sigRequired: 5,
+  unauthorized: 6,
+} as const;
+
+export const OCSP_RESPONSE_STATUS_NAMES: Record<number, string> = {
+  0: 'successful',
+  1: 'malformedRequest',
+  2: 'internalError',
+  3: 'tryLater',
+  5: 'sigRequired',
+  6: 'unauthorized',
+};
+
+// Tolerated clock difference between client and responder
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface CertID {
+  // WebCrypto digest name, e.g. 'SHA-1'
+  hashAlgorithm: string;
+  issuerNameHash: Uint8Array;
+  issuerKeyHash: Uint8Array;
+  serialNumber: Uint8Array;
+}
+
+export interface OCSPRequest {
+  der: Uint8Array;
+  certIds: CertID[];
+  // Raw extnValue of the nonce extension, echoed back unchanged by the responder
+  nonce?: Uint8Array;
+}
+
+export type CertStatus =
+  | { status: 'good' }
+  | { status: 'revoked'; revocationTime: Date; reason?: number }
+  | { status: 'unknown' };
+
+export interface SingleResponse {
+  certId: CertID;
+  certStatus: CertStatus;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+}
+
+export interface ResponderID {
+  byName?: DistinguishedName;
+  byKey?: Uint8Array;
+}
+
+export interface BasicOCSPResponse {
+  tbsResponseData: Uint8Array;
+  responderId: ResponderID;
+  producedAt: Date;
+  responses: SingleResponse[];
+  nonce?: Uint8Array;
+  signatureAlgorithm: AlgorithmIdentifierInfo;
+  signature: Uint8Array;
+  certificates: ParsedCertificate[];
+}
+
+export interface OCSPResponse {
+  der: Uint8Array;
+  status: number;
+  basic?: BasicOCSPResponse;
+}
+
+export interface OCSPResponseTemplate {
+  // SHA-1 of the responder's public key (ResponderID byKey)
+  responderKeyHash: Uint8Array;
+  producedAt: Date;
+  responses: SingleResponse[];
+  nonce?: Uint8Array;
+  // DER certificates included so clients can find a delegated responder certificate
+  certificates?: Uint8Array[];
+}
+
+// CertID
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await window.crypto.subtle.digest(algorithm, data));
+}
+
+// Identify a certificate by its serial number and hashes of its issuer's name and key
+export async function createCertID(
+  serialNumber: Uint8Array,
+  issuer: ParsedCertificate,
+  hashAlgorithm: string = 'SHA-1'
+): Promise<CertID> {
+  if (!HASH_OIDS[hashAlgorithm]) {
+    throw new Error(`Unsupported CertID hash algorithm: ${hashAlgorithm}`);
+  }
+  const { bytes: issuerKey } = DER.decodeBitString(DER.decode(issuer.subjectPublicKeyInfo).children[1]);
+  return {
+    hashAlgorithm,
+    issuerNameHash: await digest(hashAlgorithm, issuer.subjectDer),
+    issuerKeyHash: await digest(hashAlgorithm, issuerKey),
+    serialNumber,
+  };
+}
+
+// Check whether a CertID (possibly hashed with another algorithm) names this issuer
+export async function certIdMatchesIssuer(certId: CertID, issuer: ParsedCertificate): Promise<boolean> {
+  const expected = await createCertID(certId.serialNumber, issuer, certId.hashAlgorithm);
+  return bytesEqual(expected.issuerNameHash, certId.issuerNameHash)
+    && bytesEqual(expected.issuerKeyHash, certId.issuerKeyHash);
+}
+
+export function certIdsEqual(a: CertID, b: CertID): boolean {
+  return a.hashAlgorithm === b.hashAlgorithm
+    && bytesEqual(a.issuerNameHash, b.issuerNameHash)
+    && bytesEqual(a.issuerKeyHash, b.issuerKeyHash)
+    && bytesEqual(a.serialNumber, b.serialNumber);
+}
+
+function encodeCertID(certId: CertID): Uint8Array {
+  return DER.sequence(
+    DER.sequence(DER.oid(HASH_OIDS[certId.hashAlgorithm]), DER.null()),
+    DER.octetString(certId.issuerNameHash),
+    DER.octetString(certId.issuerKeyHash),
+    DER.integer(certId.serialNumber)
+  );
+}
+
+function decodeCertID(node: ASN1Node): CertID {
+  const [algorithmNode, nameHashNode, keyHashNode, serialNode] = DER.expect(node, Tag.SEQUENCE, 'CertID').children;
+  const { oid } = parseAlgorithmIdentifier(algorithmNode);
+  const hashAlgorithm = HASH_NAMES[oid];
+  if (!hashAlgorithm) {
+    throw new Error(`Unsupported CertID hash algorithm ${oid}`);
+  }
+  return {
+    hashAlgorithm,
+    issuerNameHash: DER.expect(nameHashNode, Tag.OCTET_STRING, 'issuerNameHash').value,
+    issuerKeyHash: DER.expect(keyHashNode, Tag.OCTET_STRING, 'issuerKeyHash').value,
+    serialNumber: DER.decodeIntegerBytes(serialNode),
+  };
+}
+
+function findNonce(extensionsNode?: ASN1Node): Uint8Array | undefined {
+  if (!extensionsNode) return undefined;
+  return decodeExtensions(extensionsNode.children[0]).find(extension => extension.oid === OID.ocspNonce)?.value;
+}
+
+function nonceExtension(nonce: Uint8Array): Uint8Array {
+  return encodeExtensions([{ oid: OID.ocspNonce, critical: false, value: nonce }]);
+}
+
+// Requests
+
+// Build an unsigned OCSP request; the nonce is carried as an OCTET STRING (RFC 8954)
+export function createOCSPRequest(certIds: CertID[], nonce?: Uint8Array): Uint8Array {
+  const requestList = DER.sequence(...certIds.map(certId => DER.sequence(encodeCertID(certId))));
+  return DER.sequence(DER.sequence(
+    requestList,
+    ...(nonce ? [DER.explicit(2, nonceExtension(DER.octetString(nonce)))] : [])
+  ));
+}
+
+export function parseOCSPRequest(der: Uint8Array): OCSPRequest {
+  try {
+    const request = DER.expect(DER.decode(der), Tag.SEQUENCE, 'OCSPRequest');
+    const tbsRequest = DER.expect(request.children[0], Tag.SEQUENCE, 'TBSRequest');
+    const requestList = tbsRequest.children.find(child => child.tagClass === TagClass.UNIVERSAL);
+    const certIds = DER.expect(requestList, Tag.SEQUENCE, 'requestList').children
+      .map(entry => decodeCertID(DER.expect(entry, Tag.SEQUENCE, 'Request').children[0]));
+    if (certIds.length === 0) {
+      throw new Error('Request list is empty');
+    }
+    return { der, certIds, nonce: findNonce(DER.contextChild(tbsRequest, 2)) };
+  } catch (error) {
+    throw new Error(`Malformed OCSP request: ${(error as Error).message}`);
+  }
+}
+
+// Responses
+
+// A response without responseBytes, used for every status other than successful
+export function createOCSPErrorResponse(status: number): Uint8Array {
+  return DER.sequence(DER.enumerated(status));
+}
+
+function encodeCertStatus(certStatus: CertStatus): Uint8Array {
+  switch (certStatus.status) {
+    case 'good':
+      return DER.implicit(0, new Uint8Array(0));
+    case 'revoked':
+      return DER.implicit(1, concatBytes(
+        DER.generalizedTime(certStatus.revocationTime),
+        ...(certStatus.reason !== undefined ? [DER.explicit(0, DER.enumerated(certStatus.reason))] : [])
+      ), true);
+    default:
+      return DER.implicit(2, new Uint8Array(0));
+  }
+}
+
+export async function createOCSPResponse(template: OCSPResponseTemplate, signingKey: CryptoKey): Promise<Uint8Array> {
+  const responses = template.responses.map(response => DER.sequence(
+    encodeCertID(response.certId),
+    encodeCertStatus(response.certStatus),
+    DER.generalizedTime(response.thisUpdate),
+    ...(response.nextUpdate ? [DER.explicit(0, DER.generalizedTime(response.nextUpdate))] : [])
+  ));
+  const certificates = template.certificates ?? [];
+
+  const basic = await signStructure(() => DER.sequence(
+    DER.explicit(2, DER.octetString(template.responderKeyHash)),
+    DER.generalizedTime(template.producedAt),
+    DER.sequence(...responses),
+    ...(template.nonce ? [DER.explicit(1, nonceExtension(template.nonce))] : [])
+  ), signingKey, certificates.length > 0 ? [DER.explicit(0, DER.sequence(...certificates))] : []);
+
+  return DER.sequence(
+    DER.enumerated(OCSPResponseStatus.successful),
+    DER.explicit(0, DER.sequence(DER.oid(OID.ocspBasic), DER.octetString(basic)))
+  );
+}
+
+function decodeCertStatus(node: ASN1Node): CertStatus {
+  if (node.tagClass !== TagClass.CONTEXT) {
+    throw new Error('Malformed CertStatus');
+  }
+  switch (node.tag) {
+    case 0:
+      return { status: 'good' };
+    case 1: {
+      const reasonNode = DER.contextChild(node, 0);
+      return {
+        status: 'revoked',
+        revocationTime: DER.decodeTime(node.children[0]),
+        reason: reasonNode ? DER.decodeEnumerated(reasonNode.children[0]) : undefined,
+      };
+    }
+    default:
+      return { status: 'unknown' };
+  }
+}
+
+function decodeSingleResponse(node: ASN1Node): SingleResponse {
+  const [certIdNode, statusNode, thisUpdateNode, ...optional] = DER.expect(node, Tag.SEQUENCE, 'SingleResponse').children;
+  // certStatus "good" is also tagged [0], so only look after thisUpdate
+  const nextUpdateNode = optional.find(child => child.tagClass === TagClass.CONTEXT && child.tag === 0);
+  return {
+    certId: decodeCertID(certIdNode),
+    certStatus: decodeCertStatus(statusNode),
+    thisUpdate: DER.decodeTime(thisUpdateNode),
+    nextUpdate: nextUpdateNode ? DER.decodeTime(nextUpdateNode.children[0]) : undefined,
+  };
+}
+
+function decodeBasicResponse(der: Uint8Array): BasicOCSPResponse {
+  const basic = DER.expect(DER.decode(der), Tag.SEQUENCE, 'BasicOCSPResponse');
+  const [dataNode, algorithmNode, signatureNode] = basic.children;
+  const fields = DER.expect(dataNode, Tag.SEQUENCE, 'ResponseData').children
+    .filter(child => !(child.tagClass === TagClass.CONTEXT && child.tag === 0)); // version
+  const [responderNode, producedAtNode, responsesNode] = fields;
+
+  const responderId: ResponderID = {};
+  if (responderNode.tagClass === TagClass.CONTEXT && responderNode.tag === 1) {
+    responderId.byName = decodeDN(responderNode.children[0]);
+  } else if (responderNode.tagClass === TagClass.CONTEXT && responderNode.tag === 2) {
+    responderId.byKey = DER.expect(responderNode.children[0], Tag.OCTET_STRING, 'KeyHash').value;
+  } else {
+    throw new Error('Malformed ResponderID');
+  }
+
+  const certsNode = DER.contextChild(basic, 0);
+  return {
+    tbsResponseData: dataNode.raw,
+    responderId,
+    producedAt: DER.decodeTime(producedAtNode),
+    responses: DER.expect(responsesNode, Tag.SEQUENCE, 'responses').children.map(decodeSingleResponse),
+    nonce: findNonce(DER.contextChild(dataNode, 1)),
+    signatureAlgorithm: parseAlgorithmIdentifier(algorithmNode),
+    signature: DER.decodeBitString(signatureNode).bytes,
+    certificates: certsNode ? certsNode.children[0].children.map(cert => parseCertificate(cert.raw)) : [],
+  };
+}
+
+export function parseOCSPResponse(der: Uint8Array): OCSPResponse {
+  try {
+    const response = DER.expect(DER.decode(der), Tag.SEQUENCE, 'OCSPResponse');
+    const status = DER.decodeEnumerated(response.children[0]);
+    const bytesNode = DER.contextChild(response, 0);
+    if (!bytesNode) {
+      return { der, status };
+    }
+    const [typeNode, responseNode] = DER.expect(bytesNode.children[0], Tag.SEQUENCE, 'ResponseBytes').children;
+    const responseType = DER.decodeOid(typeNode);
+    if (responseType !== OID.ocspBasic) {
+      throw new Error(`Unsupported response type ${responseType}`);
+    }
+    return {
+      der,
+      status,
+      basic: decodeBasicResponse(DER.expect(responseNode, Tag.OCTET_STRING, 'response').value),
+    };
+  } catch (error) {
+    throw new Error(`Malformed OCSP response: ${(error as Error).message}`);
+  }
+}
+
+// Client-side verification
+
+export interface OCSPVerificationOptions {
+  certId: CertID;
+  // Certificate of the CA that issued the certificate being checked
+  issuer: ParsedCertificate;
+  // Nonce passed to createOCSPRequest
+  nonce?: Uint8Array;
+  time?: Date;
+}
+
+export interface VerifiedOCSPStatus extends SingleResponse {
+  producedAt: Date;
+  responder: string;
+}
+
+async function matchesResponderId(certificate: ParsedCertificate, responderId: ResponderID): Promise<boolean> {
+  if (responderId.byKey) {
+    return bytesEqual(await computeKeyIdentifier(certificate.subjectPublicKeyInfo), responderId.byKey);
+  }
+  return !!responderId.byName && namesMatch(certificate.subject, responderId.byName);
+}
+
+// Find the response signer: the CA itself or a delegated responder it authorised (RFC 6960 4.2.2.2)
+async function authorisedSigner(
+  basic: BasicOCSPResponse,
+  issuer: ParsedCertificate,
+  time: Date
+): Promise<ParsedCertificate> {
+  if (await matchesResponderId(issuer, basic.responderId)) {
+    return issuer;
+  }
+  let signer: ParsedCertificate | undefined;
+  for (const certificate of basic.certificates) {
+    if (await matchesResponderId(certificate, basic.responderId)) {
+      signer = certificate;
+      break;
+    }
+  }
+  if (!signer) {
+    throw new Error('Responder certificate not found in the response');
+  }
+  if (!namesMatch(signer.issuer, issuer.subject) || !(await verifyCertificateSignature(signer, issuer.subjectPublicKeyInfo))) {
+    throw new Error(`Responder ${formatDN(signer.subject)} was not issued by the certificate's CA`);
+  }
+  const extKeyUsage = getExtension(signer, OID.extKeyUsage);
+  if (!extKeyUsage || !decodeExtKeyUsage(extKeyUsage.value).includes(OID.ocspSigning)) {
+    throw new Error(`Responder ${formatDN(signer.subject)} is not authorised for OCSP signing`);
+  }
+  if (time < signer.notBefore || time > signer.notAfter) {
+    throw new Error('Responder certificate is outside its validity period');
+  }
+  return signer;
+}
+
+// Check a response against the request that produced it; throws with the reason on failure
+export async function verifyOCSPResponse(
+  response: OCSPResponse,
+  options: OCSPVerificationOptions
+): Promise<VerifiedOCSPStatus> {
+  const time = options.time ?? new Date();
+  if (response.status !== OCSPResponseStatus.successful || !response.basic) {
+    throw new Error(`Responder returned "${OCSP_RESPONSE_STATUS_NAMES[response.status] ?? response.status}"`);
+  }
+  const basic = response.basic;
+
+  const signer = await authorisedSigner(basic, options.issuer, time);
+  if (!(await verifySignedData(basic.tbsResponseData, basic.signatureAlgorithm, basic.signature, signer.subjectPublicKeyInfo))) {
+    throw new Error('OCSP response signature verification failed');
+  }
+
+  if (options.nonce && (!basic.nonce || !bytesEqual(basic.nonce, DER.octetString(options.nonce)))) {
+    throw new Error('OCSP response nonce does not match the request (possible replay)');
+  }
+
+  const single = basic.responses.find(entry => certIdsEqual(entry.certId, options.certId));
+  if (!single) {
+    throw new Error('OCSP response does not cover the requested certificate');
+  }
+  if (single.thisUpdate.getTime() > time.getTime() + CLOCK_SKEW_MS) {
+    throw new Error('OCSP response is not yet valid (thisUpdate is in the future)');
+  }
+  if (single.nextUpdate && single.nextUpdate.getTime() < time.getTime() - CLOCK_SKEW_MS) {
+    throw new Error('OCSP response is stale (nextUpdate has passed)');
+  }
+
+  return { ...single, producedAt: basic.producedAt, responder: formatDN(signer.subject) };
+}
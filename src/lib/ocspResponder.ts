@@ -0,0 +1,143 @@
+// In-app OCSP responder answering from a local CA's revocation database.
+// Requests are passed in-process, standing in for an HTTP POST to the responder URL.
+import type { KeyPair } from './crypto';
+import { CertificateAuthority } from './ca';
+import { OID } from './oids';
+import {
+  OCSPRequest,
+  OCSPResponseStatus,
+  SingleResponse,
+  certIdMatchesIssuer,
+  createOCSPErrorResponse,
+  createOCSPResponse,
+  parseOCSPRequest,
+} from './ocsp';
+import {
+  KeyUsage,
+  ParsedCertificate,
+  computeKeyIdentifier,
+  formatSerialNumber,
+  parseCertificate,
+} from './x509';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long clients may cache a response
+const RESPONSE_VALIDITY_MS = DAY_MS;
+
+// Upper bound on the lifetime of the delegated responder certificate
+const RESPONDER_VALIDITY_DAYS = 30;
+
+export class OCSPResponder {
+  readonly authority: CertificateAuthority;
+  readonly certificate: ParsedCertificate;
+  private readonly privateKey: CryptoKey;
+  private readonly keyHash: Uint8Array;
+
+  private constructor(
+    authority: CertificateAuthority,
+    certificate: ParsedCertificate,
+    privateKey: CryptoKey,
+    keyHash: Uint8Array
+  ) {
+    this.authority = authority;
+    this.certificate = certificate;
+    this.privateKey = privateKey;
+    this.keyHash = keyHash;
+  }
+
+  // Have the CA issue a delegated responder certificate (id-kp-OCSPSigning) for the key pair
+  static async create(authority: CertificateAuthority, keyPair: KeyPair): Promise<OCSPResponder> {
+    try {
+      const remainingDays = Math.floor((authority.certificate.notAfter.getTime() - Date.now()) / DAY_MS);
+      const der = await authority.issue({
+        subject: authority.certificate.subject.map(rdn => rdn.map(attribute => attribute.type === OID.commonName
+          ? { ...attribute, value: `${attribute.value} OCSP Responder` }
+          : attribute)),
+        publicKey: keyPair.publicKey,
+        validityDays: Math.min(RESPONDER_VALIDITY_DAYS, remainingDays),
+        keyUsage: [KeyUsage.digitalSignature],
+        extendedKeyUsage: [OID.ocspSigning],
+      });
+      return new OCSPResponder(
+        authority,
+        parseCertificate(der),
+        keyPair.privateKey,
+        await computeKeyIdentifier(keyPair.publicKey)
+      );
+    } catch (error) {
+      throw new Error(`Failed to create OCSP responder: ${error}`);
+    }
+  }
+
+  async serves(request: OCSPRequest): Promise<boolean> {
+    return certIdMatchesIssuer(request.certIds[0], this.authority.certificate);
+  }
+
+  // Answer a DER request with a signed DER response
+  async respond(requestDer: Uint8Array): Promise<Uint8Array> {
+    let request: OCSPRequest;
+    try {
+      request = parseOCSPRequest(requestDer);
+    } catch {
+      return createOCSPErrorResponse(OCSPResponseStatus.malformedRequest);
+    }
+
+    try {
+      const thisUpdate = new Date();
+      const issued = this.authority.issuedCertificates;
+      const responses: SingleResponse[] = [];
+      for (const certId of request.certIds) {
+        const serialNumber = formatSerialNumber(certId.serialNumber);
+        const entry = (await certIdMatchesIssuer(certId, this.authority.certificate))
+          ? issued.find(candidate => candidate.serialNumber === serialNumber)
+          : undefined;
+        responses.push({
+          certId,
+          certStatus: !entry
+            ? { status: 'unknown' }
+            : entry.revocation
+              ? { status: 'revoked', revocationTime: entry.revocation.date, reason: entry.revocation.reason }
+              : { status: 'good' },
+          thisUpdate,
+          nextUpdate: new Date(thisUpdate.getTime() + RESPONSE_VALIDITY_MS),
+        });
+      }
+
+      return await createOCSPResponse(
+        {
+          responderKeyHash: this.keyHash,
+          producedAt: thisUpdate,
+          responses,
+          nonce: request.nonce,
+          certificates: [this.certificate.der],
+        },
+        this.privateKey
+      );
+    } catch {
+      return createOCSPErrorResponse(OCSPResponseStatus.internalError);
+    }
+  }
+}
+
+const localResponders: OCSPResponder[] = [];
+
+export function registerLocalResponder(responder: OCSPResponder): void {
+  localResponders.push(responder);
+}
+
+// Deliver a request to whichever registered responder serves the issuer named in it
+export async function sendLocalOCSPRequest(requestDer: Uint8Array): Promise<Uint8Array> {
+  let request: OCSPRequest;
+  try {
+    request = parseOCSPRequest(requestDer);
+  } catch {
+    return createOCSPErrorResponse(OCSPResponseStatus.malformedRequest);
+  }
+  for (const responder of localResponders) {
+    if (await responder.serves(request)) {
+      return responder.respond(requestDer);
+    }
+  }
+  return createOCSPErrorResponse(OCSPResponseStatus.unauthorized);
+}
@@ -0,0 +1,185 @@
+// Object identifiers used across the X.509 and PKCS modules
+export const OID = {
+  // Public key and signature algorithms
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  md5WithRSAEncryption: '1.2.840.113549.1.1.4',
+  sha1WithRSAEncryption: '1.2.840.113549.1.1.5',
+  mgf1: '1.2.840.113549.1.1.8',
+  rsassaPss: '1.2.840.113549.1.1.10',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  sha384WithRSAEncryption: '1.2.840.113549.1.1.12',
+  sha512WithRSAEncryption: '1.2.840.113549.1.1.13',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSHA1: '1.2.840.10045.4.1',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ecdsaWithSHA384: '1.2.840.10045.4.3.3',
+  ecdsaWithSHA512: '1.2.840.10045.4.3.4',
+  ed25519: '1.3.101.112',
+  ed448: '1.3.101.113',
+
+  // Named elliptic curves
+  secp256r1: '1.2.840.10045.3.1.7',
+  secp384r1: '1.3.132.0.34',
+  secp521r1: '1.3.132.0.35',
+
+  // Hash algorithms
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+
+  // Password-based encryption (RFC 8018) and AES modes (RFC 3565, RFC 5084)
+  pbkdf2: '1.2.840.113549.1.5.12',
+  pbes2: '1.2.840.113549.1.5.13',
+  hmacWithSHA1: '1.2.840.113549.2.7',
+  hmacWithSHA256: '1.2.840.113549.2.9',
+  hmacWithSHA384: '1.2.840.113549.2.10',
+  hmacWithSHA512: '1.2.840.113549.2.11',
+  aes128CBC: '2.16.840.1.101.3.4.1.2',
+  aes128GCM: '2.16.840.1.101.3.4.1.6',
+  aes256CBC: '2.16.840.1.101.3.4.1.42',
+  aes256GCM: '2.16.840.1.101.3.4.1.46',
+
+  // Distinguished name attributes
+  commonName: '2.5.4.3',
+  surname: '2.5.4.4',
+  serialNumber: '2.5.4.5',
+  countryName: '2.5.4.6',
+  localityName: '2.5.4.7',
+  stateOrProvinceName: '2.5.4.8',
+  streetAddress: '2.5.4.9',
+  organizationName: '2.5.4.10',
+  organizationalUnitName: '2.5.4.11',
+  title: '2.5.4.12',
+  givenName: '2.5.4.42',
+  emailAddress: '1.2.840.113549.1.9.1',
+  domainComponent: '0.9.2342.19200300.100.1.25',
+  userId: '0.9.2342.19200300.100.1.1',
+
+  // Certificate extensions
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  subjectAltName: '2.5.29.17',
+  issuerAltName: '2.5.29.18',
+  basicConstraints: '2.5.29.19',
+  nameConstraints: '2.5.29.30',
+  crlDistributionPoints: '2.5.29.31',
+  certificatePolicies: '2.5.29.32',
+  authorityKeyIdentifier: '2.5.29.35',
+  cRLNumber: '2.5.29.20',
+  cRLReason: '2.5.29.21',
+  invalidityDate: '2.5.29.24',
+  extKeyUsage: '2.5.29.37',
+  authorityInfoAccess: '1.3.6.1.5.5.7.1.1',
+
+  // Extended key usages
+  serverAuth: '1.3.6.1.5.5.7.3.1',
+  clientAuth: '1.3.6.1.5.5.7.3.2',
+  codeSigning: '1.3.6.1.5.5.7.3.3',
+  emailProtection: '1.3.6.1.5.5.7.3.4',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+  ocspSigning: '1.3.6.1.5.5.7.3.9',
+  anyExtendedKeyUsage: '2.5.29.37.0',
+
+  // CMS (RFC 5652) and time-stamping (RFC 3161, RFC 5816)
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  signingCertificate: '1.2.840.113549.1.9.16.2.12',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+
+  // OCSP (RFC 6960)
+  ocspBasic: '1.3.6.1.5.5.7.48.1.1',
+  ocspNonce: '1.3.6.1.5.5.7.48.1.2',
+} as const;
+
+// Short names for distinguished name attributes, as used by OpenSSL
+export const DN_ATTRIBUTES: Record<string, string> = {
+  CN: OID.commonName,
+  SN: OID.surname,
+  serialNumber: OID.serialNumber,
+  C: OID.countryName,
+  L: OID.localityName,
+  ST: OID.stateOrProvinceName,
+  street: OID.streetAddress,
+  O: OID.organizationName,
+  OU: OID.organizationalUnitName,
+  title: OID.title,
+  GN: OID.givenName,
+  emailAddress: OID.emailAddress,
+  DC: OID.domainComponent,
+  UID: OID.userId,
+};
+
+// Human-readable names for display
+export const OID_NAMES: Record<string, string> = {
+  [OID.rsaEncryption]: 'RSA',
+  [OID.md5WithRSAEncryption]: 'md5WithRSAEncryption',
+  [OID.sha1WithRSAEncryption]: 'sha1WithRSAEncryption',
+  [OID.rsassaPss]: 'RSASSA-PSS',
+  [OID.sha256WithRSAEncryption]: 'sha256WithRSAEncryption',
+  [OID.sha384WithRSAEncryption]: 'sha384WithRSAEncryption',
+  [OID.sha512WithRSAEncryption]: 'sha512WithRSAEncryption',
+  [OID.ecPublicKey]: 'EC',
+  [OID.ecdsaWithSHA1]: 'ecdsa-with-SHA1',
+  [OID.ecdsaWithSHA256]: 'ecdsa-with-SHA256',
+  [OID.ecdsaWithSHA384]: 'ecdsa-with-SHA384',
+  [OID.ecdsaWithSHA512]: 'ecdsa-with-SHA512',
+  [OID.ed25519]: 'Ed25519',
+  [OID.ed448]: 'Ed448',
+  [OID.secp256r1]: 'P-256',
+  [OID.secp384r1]: 'P-384',
+  [OID.secp521r1]: 'P-521',
+  [OID.sha1]: 'SHA-1',
+  [OID.sha256]: 'SHA-256',
+  [OID.sha384]: 'SHA-384',
+  [OID.sha512]: 'SHA-512',
+  [OID.pbkdf2]: 'PBKDF2',
+  [OID.pbes2]: 'PBES2',
+  [OID.hmacWithSHA1]: 'hmacWithSHA1',
+  [OID.hmacWithSHA256]: 'hmacWithSHA256',
+  [OID.hmacWithSHA384]: 'hmacWithSHA384',
+  [OID.hmacWithSHA512]: 'hmacWithSHA512',
+  [OID.aes128CBC]: 'aes-128-cbc',
+  [OID.aes128GCM]: 'aes-128-gcm',
+  [OID.aes256CBC]: 'aes-256-cbc',
+  [OID.aes256GCM]: 'aes-256-gcm',
+  [OID.subjectKeyIdentifier]: 'Subject Key Identifier',
+  [OID.keyUsage]: 'Key Usage',
+  [OID.subjectAltName]: 'Subject Alternative Name',
+  [OID.issuerAltName]: 'Issuer Alternative Name',
+  [OID.basicConstraints]: 'Basic Constraints',
+  [OID.nameConstraints]: 'Name Constraints',
+  [OID.crlDistributionPoints]: 'CRL Distribution Points',
+  [OID.certificatePolicies]: 'Certificate Policies',
+  [OID.authorityKeyIdentifier]: 'Authority Key Identifier',
+  [OID.cRLNumber]: 'CRL Number',
+  [OID.cRLReason]: 'CRL Reason Code',
+  [OID.invalidityDate]: 'Invalidity Date',
+  [OID.extKeyUsage]: 'Extended Key Usage',
+  [OID.authorityInfoAccess]: 'Authority Information Access',
+  [OID.serverAuth]: 'TLS Web Server Authentication',
+  [OID.clientAuth]: 'TLS Web Client Authentication',
+  [OID.codeSigning]: 'Code Signing',
+  [OID.emailProtection]: 'E-mail Protection',
+  [OID.timeStamping]: 'Time Stamping',
+  [OID.ocspSigning]: 'OCSP Signing',
+  [OID.anyExtendedKeyUsage]: 'Any Extended Key Usage',
+  [OID.data]: 'Data',
+  [OID.signedData]: 'Signed Data',
+  [OID.contentType]: 'Content Type',
+  [OID.messageDigest]: 'Message Digest',
+  [OID.signingTime]: 'Signing Time',
+  [OID.tstInfo]: 'TSTInfo',
+  [OID.signingCertificate]: 'Signing Certificate',
+  [OID.signingCertificateV2]: 'Signing Certificate V2',
+  [OID.ocspBasic]: 'Basic OCSP Response',
+  [OID.ocspNonce]: 'OCSP Nonce',
+};
+
+export function oidName(oid: string): string {
+  return OID_NAMES[oid] ?? oid;
+}
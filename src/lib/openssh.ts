@@ -0,0 +1,264 @@
+// OpenSSH keys: "ssh-ed25519 AAAA... comment" public keys (RFC 4253, RFC 5656, RFC 8709) and unencrypted
+// "openssh-key-v1" private keys (PROTOCOL.key in the OpenSSH sources), converted to and from SPKI / PKCS#8
+import { DER, Tag } from './asn1';
+import { OID } from './oids';
+import { CURVE_SIZES } from './x509';
+import { concatBytes, fromBase64, fromPem, toBase64, toPem } from './encoding';
+import { detectKeyAlgorithm } from './keys';
+import { curveOid, decodePrivateKey, decodePublicKey } from './keyformats';
+
+const PRIVATE_KEY_LABEL = 'OPENSSH PRIVATE KEY';
+const AUTH_MAGIC = new TextEncoder().encode('openssh-key-v1\0');
+// Cipher block size of "none", to which the private section is padded
+const BLOCK_SIZE = 8;
+
+const SSH_CURVES: Record<string, string> = { 'P-256': 'nistp256', 'P-384': 'nistp384', 'P-521': 'nistp521' };
+
+// Reads the SSH wire encoding (RFC 4251 section 5)
+class SshReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  uint32(): number {
+    if (this.offset + 4 > this.bytes.length) {
+      throw new Error('Truncated OpenSSH key');
+    }
+    const value = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, 4).getUint32(0);
+    this.offset += 4;
+    return value;
+  }
+
+  string(): Uint8Array {
+    const length = this.uint32();
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Truncated OpenSSH key');
+    }
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  text(): string {
+    return new TextDecoder().decode(this.string());
+  }
+
+  // Two's complement, so positive values with the top bit set carry a leading zero byte
+  mpint(): Uint8Array {
+    const value = this.string();
+    let start = 0;
+    while (start < value.length && value[start] === 0) start++;
+    return value.subarray(start);
+  }
+}
+
+function sshUint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function sshString(value: Uint8Array | string): Uint8Array {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  return concatBytes(sshUint32(bytes.length), bytes);
+}
+
+function sshMpint(magnitude: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < magnitude.length && magnitude[start] === 0) start++;
+  const value = magnitude.subarray(start);
+  return sshString(value[0] & 0x80 ? concatBytes(new Uint8Array([0]), value) : value);
+}
+
+function toBigInt(magnitude: Uint8Array): bigint {
+  return magnitude.reduce((result, byte) => (result << 8n) | BigInt(byte), 0n);
+}
+
+function curveOf(sshCurve: string): string {
+  const curve = Object.keys(SSH_CURVES).find(name => SSH_CURVES[name] === sshCurve);
+  if (!curve) {
+    throw new Error(`Unsupported OpenSSH curve ${sshCurve}`);
+  }
+  return curve;
+}
+
+export function isOpenSshPublicKey(text: string): boolean {
+  return /^(ssh-rsa|ssh-ed25519|ecdsa-sha2-nistp\d+)\s/.test(text.trim());
+}
+
+export function isOpenSshPrivateKey(text: string): boolean {
+  return text.includes(`-----BEGIN ${PRIVATE_KEY_LABEL}-----`);
+}
+
+// SPKI for a public key blob: ssh-rsa { e, n }, ecdsa-sha2-* { curve, Q } or ssh-ed25519 { A }
+function publicBlobToSpki(blob: Uint8Array): Uint8Array {
+  const reader = new SshReader(blob);
+  const type = reader.text();
+  if (type === 'ssh-rsa') {
+    const e = reader.mpint();
+    const n = reader.mpint();
+    return decodePublicKey(DER.sequence(DER.integer(n), DER.integer(e))).der;
+  }
+  if (type === 'ssh-ed25519') {
+    return DER.sequence(DER.sequence(DER.oid(OID.ed25519)), DER.bitString(reader.string()));
+  }
+  if (type.startsWith('ecdsa-sha2-')) {
+    const curve = curveOf(reader.text());
+    return DER.sequence(
+      DER.sequence(DER.oid(OID.ecPublicKey), DER.oid(curveOid(curve))),
+      DER.bitString(reader.string())
+    );
+  }
+  throw new Error(`Unsupported OpenSSH key type ${type}`);
+}
+
+function spkiToPublicBlob(spki: Uint8Array): Uint8Array {
+  const keyAlgorithm = detectKeyAlgorithm(spki, 'spki');
+  const publicKey = DER.decodeBitString(DER.decode(spki).children[1]).bytes;
+  switch (keyAlgorithm.type) {
+    case 'RSA': {
+      const [n, e] = DER.expect(DER.decode(publicKey), Tag.SEQUENCE, 'RSAPublicKey').children;
+      return concatBytes(sshString('ssh-rsa'), sshMpint(DER.decodeIntegerBytes(e)), sshMpint(DER.decodeIntegerBytes(n)));
+    }
+    case 'EC': {
+      const sshCurve = SSH_CURVES[keyAlgorithm.curve];
+      return concatBytes(sshString(`ecdsa-sha2-${sshCurve}`), sshString(sshCurve), sshString(publicKey));
+    }
+    case 'EdDSA':
+      if (keyAlgorithm.curve !== 'Ed25519') {
+        throw new Error(`OpenSSH does not support ${keyAlgorithm.curve} keys`);
+      }
+      return concatBytes(sshString('ssh-ed25519'), sshString(publicKey));
+  }
+}
+
+// An authorized_keys style line: key type, Base64 blob and optional comment
+export function openSshPublicKeyToSpki(line: string): { spki: Uint8Array; comment: string } {
+  const [type, data, ...comment] = line.trim().split(/\s+/);
+  const blob = fromBase64(data ?? '');
+  if (new SshReader(blob).text() !== type) {
+    throw new Error('OpenSSH key type does not match the key data');
+  }
+  return { spki: publicBlobToSpki(blob), comment: comment.join(' ') };
+}
+
+export function spkiToOpenSsh(spki: Uint8Array, comment: string = ''): string {
+  const blob = spkiToPublicBlob(spki);
+  return [new SshReader(blob).text(), toBase64(blob), comment].filter(Boolean).join(' ');
+}
+
+export function openSshPrivateKeyToPkcs8(pem: string): { pkcs8: Uint8Array; comment: string } {
+  const { der } = fromPem(pem, PRIVATE_KEY_LABEL);
+  if (!AUTH_MAGIC.every((byte, i) => der[i] === byte)) {
+    throw new Error('Not an openssh-key-v1 private key');
+  }
+  const reader = new SshReader(der.subarray(AUTH_MAGIC.length));
+  const cipher = reader.text();
+  reader.text(); // kdfname
+  reader.string(); // kdfoptions
+  if (cipher !== 'none') {
+    throw new Error(
+      `Passphrase-protected OpenSSH keys (${cipher}) are not supported; ` +
+        're-encrypt the key as PKCS#8 with "ssh-keygen -p -m PKCS8 -f <file>"'
+    );
+  }
+  const count = reader.uint32();
+  if (count !== 1) {
+    throw new Error(`Expected one key in the OpenSSH file, found ${count}`);
+  }
+  reader.string(); // public key, repeated in the private section
+
+  const section = new SshReader(reader.string());
+  if (section.uint32() !== section.uint32()) {
+    throw new Error('OpenSSH private key is corrupted');
+  }
+  const type = section.text();
+  let pkcs8: Uint8Array;
+  if (type === 'ssh-rsa') {
+    const [n, e, d, iqmp, p, q] = Array.from({ length: 6 }, () => section.mpint());
+    // PKCS#1 also wants the CRT exponents, which OpenSSH does not store
+    const exponent = toBigInt(d);
+    const pkcs1 = DER.sequence(
+      DER.integer(0),
+      DER.integer(n),
+      DER.integer(e),
+      DER.integer(d),
+      DER.integer(p),
+      DER.integer(q),
+      DER.integer(exponent % (toBigInt(p) - 1n)),
+      DER.integer(exponent % (toBigInt(q) - 1n)),
+      DER.integer(iqmp)
+    );
+    pkcs8 = decodePrivateKey(pkcs1).der;
+  } else if (type === 'ssh-ed25519') {
+    section.string(); // public key
+    // The secret is the 32-byte seed followed by the public key
+    const seed = section.string().subarray(0, 32);
+    pkcs8 = DER.sequence(DER.integer(0), DER.sequence(DER.oid(OID.ed25519)), DER.octetString(DER.octetString(seed)));
+  } else if (type.startsWith('ecdsa-sha2-')) {
+    const curve = curveOf(section.text());
+    const point = section.string();
+    const scalar = section.mpint();
+    // SEC1 fixes the private key's length to that of the field
+    const privateKey = new Uint8Array(Math.ceil(CURVE_SIZES[curve] / 8));
+    privateKey.set(scalar, privateKey.length - scalar.length);
+    const sec1 = DER.sequence(
+      DER.integer(1),
+      DER.octetString(privateKey),
+      DER.explicit(0, DER.oid(curveOid(curve))),
+      DER.explicit(1, DER.bitString(point))
+    );
+    pkcs8 = decodePrivateKey(sec1).der;
+  } else {
+    throw new Error(`Unsupported OpenSSH key type ${type}`);
+  }
+  return { pkcs8, comment: section.text() };
+}
+
+// Always written unencrypted; the SPKI supplies the public key, which WebCrypto's PKCS#8 may leave out.
+// Ends with a newline, without which OpenSSH fails to read the file ("error in libcrypto")
+export function pkcs8ToOpenSsh(pkcs8: Uint8Array, spki: Uint8Array, comment: string = ''): string {
+  const keyAlgorithm = detectKeyAlgorithm(pkcs8, 'pkcs8');
+  const blob = spkiToPublicBlob(spki);
+  const blobReader = new SshReader(blob);
+  const type = blobReader.text();
+  const privateKey = DER.decode(DER.expect(DER.decode(pkcs8).children[2], Tag.OCTET_STRING, 'PrivateKey').value);
+
+  let fields: Uint8Array;
+  switch (keyAlgorithm.type) {
+    case 'RSA': {
+      const [, n, e, d, p, q, , , qi] = privateKey.children.map(child => DER.decodeIntegerBytes(child));
+      fields = concatBytes(...[n, e, d, qi, p, q].map(sshMpint));
+      break;
+    }
+    case 'EC': {
+      const sshCurve = blobReader.text();
+      const point = blobReader.string();
+      fields = concatBytes(sshString(sshCurve), sshString(point), sshMpint(privateKey.children[1].value));
+      break;
+    }
+    case 'EdDSA': {
+      const publicKey = blobReader.string();
+      fields = concatBytes(sshString(publicKey), sshString(concatBytes(privateKey.value, publicKey)));
+      break;
+    }
+  }
+
+  // Matching check integers let OpenSSH detect a wrong passphrase on encrypted keys
+  const check = window.crypto.getRandomValues(new Uint8Array(4));
+  const section = concatBytes(check, check, sshString(type), fields, sshString(comment));
+  const padding = Array.from({ length: (BLOCK_SIZE - (section.length % BLOCK_SIZE)) % BLOCK_SIZE }, (_, i) => i + 1);
+
+  return toPem(
+    concatBytes(
+      AUTH_MAGIC,
+      sshString('none'),
+      sshString('none'),
+      sshString(new Uint8Array(0)),
+      sshUint32(1),
+      sshString(blob),
+      sshString(concatBytes(section, new Uint8Array(padding)))
+    ),
+    PRIVATE_KEY_LABEL
+  ) + '\n';
+}
@@ -0,0 +1,302 @@
+// Certificate path building and validation (RFC 5280, section 6)
+import { OID } from './oids';
+import { bytesEqual } from './encoding';
+import { ParsedCRL, REVOCATION_REASON_NAMES, findRevocation, verifyCRLSignature } from './crl';
+import {
+  KeyUsage,
+  ParsedCertificate,
+  decodeAuthorityKeyIdentifier,
+  decodeBasicConstraints,
+  decodeKeyIdentifier,
+  decodeKeyUsage,
+  formatDN,
+  formatSerialNumber,
+  getExtension,
+  isSelfIssued,
+  namesMatch,
+  verifyCertificateSignature,
+} from './x509';
+
+export interface CertificateVerdict {
+  subject: string;
+  serialNumber: string;
+  valid: boolean;
+  reasons: string[];
+  revoked?: { date: Date; reason: string };
+}
+
+export type PathStatus = 'valid' | 'invalid' | 'untrusted';
+
+export interface PathValidationResult {
+  status: PathStatus;
+  // Leaf first, trust anchor (if reached) last
+  path: ParsedCertificate[];
+  verdicts: CertificateVerdict[];
+}
+
+export interface PathValidationOptions {
+  intermediates: ParsedCertificate[];
+  trustAnchors: ParsedCertificate[];
+  // Revocation lists consulted for every certificate below the top of the path
+  crls?: ParsedCRL[];
+  time?: Date;
+}
+
+const MAX_PATH_DEPTH = 10;
+
+// Extensions this validator understands; any other critical extension fails validation
+const PROCESSED_EXTENSIONS = new Set<string>([
+  OID.basicConstraints,
+  OID.keyUsage,
+  OID.extKeyUsage,
+  OID.subjectAltName,
+  OID.subjectKeyIdentifier,
+  OID.authorityKeyIdentifier,
+]);
+
+function isAnchor(certificate: ParsedCertificate, anchors: ParsedCertificate[]): boolean {
+  return anchors.some(anchor => bytesEqual(anchor.der, certificate.der));
+}
+
+function couldHaveIssued(issuer: ParsedCertificate, certificate: ParsedCertificate): boolean {
+  if (!namesMatch(issuer.subject, certificate.issuer)) {
+    return false;
+  }
+  const aki = getExtension(certificate, OID.authorityKeyIdentifier);
+  const ski = getExtension(issuer, OID.subjectKeyIdentifier);
+  if (aki && ski) {
+    try {
+      const keyId = decodeAuthorityKeyIdentifier(aki.value);
+      return !keyId || bytesEqual(keyId, decodeKeyIdentifier(ski.value));
+    } catch {
+      return true;
+    }
+  }
+  return true;
+}
+
+// Depth-first search for every chain from the leaf up to a trust anchor
+function buildPaths(
+  leaf: ParsedCertificate,
+  candidates: ParsedCertificate[],
+  anchors: ParsedCertificate[]
+): { complete: ParsedCertificate[][]; longestPartial: ParsedCertificate[] } {
+  const complete: ParsedCertificate[][] = [];
+  let longestPartial: ParsedCertificate[] = [leaf];
+
+  const extend = (path: ParsedCertificate[]) => {
+    const current = path[path.length - 1];
+    if (isAnchor(current, anchors)) {
+      complete.push(path);
+      return;
+    }
+    if (path.length > longestPartial.length) {
+      longestPartial = path;
+    }
+    if (path.length >= MAX_PATH_DEPTH) {
+      return;
+    }
+    for (const candidate of candidates) {
+      if (path.some(certificate => bytesEqual(certificate.der, candidate.der))) continue;
+      if (couldHaveIssued(candidate, current)) {
+        extend([...path, candidate]);
+      }
+    }
+  };
+
+  extend([leaf]);
+  return { complete, longestPartial };
+}
+
+// Look the certificate up in every CRL that its issuer has signed
+async function checkRevocation(
+  certificate: ParsedCertificate,
+  issuer: ParsedCertificate,
+  crls: ParsedCRL[],
+  time: Date
+): Promise<{ revoked?: CertificateVerdict['revoked']; notes: string[] }> {
+  const notes: string[] = [];
+  // An issuer whose key usage omits cRLSign cannot vouch for revocation status
+  const keyUsage = getExtension(issuer, OID.keyUsage);
+  try {
+    if (keyUsage && !decodeKeyUsage(keyUsage.value).includes(KeyUsage.cRLSign)) {
+      return { notes };
+    }
+  } catch {
+    return { notes };
+  }
+
+  for (const crl of crls) {
+    if (!namesMatch(crl.issuer, certificate.issuer)) continue;
+    try {
+      if (!(await verifyCRLSignature(crl, issuer.subjectPublicKeyInfo))) continue;
+    } catch {
+      continue;
+    }
+    if (crl.nextUpdate && time > crl.nextUpdate) {
+      notes.push(`CRL from ${formatDN(crl.issuer)} is past its next update (${crl.nextUpdate.toISOString()})`);
+    }
+    const entry = findRevocation(crl, certificate.serialNumber);
+    if (entry && entry.revocationDate <= time) {
+      return {
+        revoked: { date: entry.revocationDate, reason: REVOCATION_REASON_NAMES[entry.reason] ?? `Reason ${entry.reason}` },
+        notes,
+      };
+    }
+    notes.push(`Not revoked according to CRL issued ${crl.thisUpdate.toISOString()}`);
+  }
+  return { notes };
+}
+
+async function checkPath(
+  path: ParsedCertificate[],
+  anchored: boolean,
+  time: Date,
+  crls: ParsedCRL[]
+): Promise<CertificateVerdict[]> {
+  const verdicts: CertificateVerdict[] = path.map(certificate => ({
+    subject: formatDN(certificate.subject),
+    serialNumber: formatSerialNumber(certificate.serialNumber),
+    valid: true,
+    reasons: [],
+  }));
+  const fail = (index: number, reason: string) => {
+    verdicts[index].valid = false;
+    verdicts[index].reasons.push(reason);
+  };
+
+  // Remaining number of non-self-issued intermediates allowed below each position
+  let maxPathLength = path.length;
+
+  // Walk from the top of the chain down to the leaf, as in RFC 5280 6.1
+  for (let index = path.length - 1; index >= 0; index--) {
+    const certificate = path[index];
+    const isTop = index === path.length - 1;
+    const isLeaf = index === 0;
+
+    if (time < certificate.notBefore) {
+      fail(index, `Not valid until ${certificate.notBefore.toISOString()}`);
+    } else if (time > certificate.notAfter) {
+      fail(index, `Expired on ${certificate.notAfter.toISOString()}`);
+    }
+
+    for (const extension of certificate.extensions) {
+      if (extension.critical && !PROCESSED_EXTENSIONS.has(extension.oid)) {
+        fail(index, `Unrecognised critical extension ${extension.oid}`);
+      }
+    }
+
+    if (isTop) {
+      if (anchored) {
+        verdicts[index].reasons.push(isLeaf ? 'Certificate is itself a trust anchor' : 'Trust anchor');
+      } else if (isSelfIssued(certificate)) {
+        fail(index, 'Self-signed certificate is not a trusted root');
+      } else {
+        fail(index, `Issuer certificate not found: ${formatDN(certificate.issuer)}`);
+      }
+    } else {
+      const issuer = path[index + 1];
+      if (!namesMatch(issuer.subject, certificate.issuer)) {
+        fail(index, 'Issuer name does not match the subject of the issuing certificate');
+      }
+      try {
+        if (await verifyCertificateSignature(certificate, issuer.subjectPublicKeyInfo)) {
+          verdicts[index].reasons.push(`Signature verified by ${formatDN(issuer.subject)}`);
+        } else {
+          fail(index, 'Signature verification failed');
+        }
+      } catch (error) {
+        fail(index, `Signature could not be checked: ${(error as Error).message}`);
+      }
+
+      const { revoked, notes } = await checkRevocation(certificate, issuer, crls, time);
+      verdicts[index].reasons.push(...notes);
+      if (revoked) {
+        verdicts[index].revoked = revoked;
+        fail(index, `Revoked on ${revoked.date.toISOString()} (${revoked.reason})`);
+      }
+    }
+
+    // Signature check for a self-signed top certificate
+    if (isTop && isSelfIssued(certificate)) {
+      try {
+        if (!(await verifyCertificateSignature(certificate, certificate.subjectPublicKeyInfo))) {
+          fail(index, 'Self-signature verification failed');
+        }
+      } catch (error) {
+        fail(index, `Self-signature could not be checked: ${(error as Error).message}`);
+      }
+    }
+
+    if (!isLeaf) {
+      // Certificates that issue others must be CA certificates (RFC 5280 6.1.4 k, l, m, n)
+      const basicConstraints = getExtension(certificate, OID.basicConstraints);
+      let ca = false;
+      let pathLength: number | undefined;
+      if (basicConstraints) {
+        try {
+          ({ ca, pathLength } = decodeBasicConstraints(basicConstraints.value));
+        } catch {
+          fail(index, 'Malformed basicConstraints extension');
+        }
+      }
+      if (!ca) {
+        fail(index, 'Not a CA certificate (basicConstraints cA is not set)');
+      }
+
+      const keyUsage = getExtension(certificate, OID.keyUsage);
+      if (keyUsage) {
+        try {
+          if (!decodeKeyUsage(keyUsage.value).includes(KeyUsage.keyCertSign)) {
+            fail(index, 'Key usage does not permit certificate signing (keyCertSign)');
+          }
+        } catch {
+          fail(index, 'Malformed keyUsage extension');
+        }
+      }
+
+      if (!isTop && !isSelfIssued(certificate)) {
+        if (maxPathLength <= 0) {
+          fail(index, 'Path length constraint exceeded');
+        }
+        maxPathLength--;
+      }
+      if (pathLength !== undefined && pathLength < maxPathLength) {
+        maxPathLength = pathLength;
+      }
+    }
+  }
+
+  return verdicts;
+}
+
+// Build a path from the leaf to one of the trust anchors and validate it.
+// When several paths exist the first valid one wins; otherwise the first failure is reported.
+export async function validateCertificatePath(
+  leaf: ParsedCertificate,
+  options: PathValidationOptions
+): Promise<PathValidationResult> {
+  const time = options.time ?? new Date();
+  const candidates = [...options.intermediates, ...options.trustAnchors];
+  const { complete, longestPartial } = buildPaths(leaf, candidates, options.trustAnchors);
+
+  let firstFailure: PathValidationResult | null = null;
+  for (const path of complete) {
+    const verdicts = await checkPath(path, true, time, options.crls ?? []);
+    const result: PathValidationResult = {
+      status: verdicts.every(verdict => verdict.valid) ? 'valid' : 'invalid',
+      path,
+      verdicts,
+    };
+    if (result.status === 'valid') {
+      return result;
+    }
+    firstFailure = firstFailure ?? result;
+  }
+  if (firstFailure) {
+    return firstFailure;
+  }
+
+  const verdicts = await checkPath(longestPartial, false, time, options.crls ?? []);
+  return { status: 'untrusted', path: longestPartial, verdicts };
+}
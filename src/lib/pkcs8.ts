@@ -0,0 +1,192 @@
+// Passphrase-protected private keys: PKCS#8 EncryptedPrivateKeyInfo (RFC 5958) with PBES2 (RFC 8018),
+// PBKDF2 and AES-CBC or AES-GCM, as written and read by `openssl pkcs8 -topk8 -v2 aes-256-cbc`
+import { ASN1Node, DER, Tag } from './asn1';
+import { OID, oidName } from './oids';
+import { parseAlgorithmIdentifier } from './x509';
+
+export type PbeCipher = 'AES-256-CBC' | 'AES-128-CBC' | 'AES-256-GCM' | 'AES-128-GCM';
+
+// Ciphers offered for export, limited to those `openssl pkcs8` can read; GCM-encrypted keys are still imported
+export const PBE_CIPHERS: PbeCipher[] = ['AES-256-CBC', 'AES-128-CBC'];
+
+export type PbkdfHash = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export interface PrivateKeyEncryptionOptions {
+  // AES-256-CBC by default; OpenSSL cannot read GCM-encrypted PKCS#8
+  cipher?: PbeCipher;
+  // PBKDF2 PRF, HMAC with SHA-256 by default
+  hash?: PbkdfHash;
+  iterations?: number;
+}
+
+export const ENCRYPTED_PRIVATE_KEY_LABEL = 'ENCRYPTED PRIVATE KEY';
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256; OpenSSL itself defaults to only 2048 iterations
+const DEFAULT_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const GCM_NONCE_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+
+interface CipherInfo {
+  oid: string;
+  mode: 'AES-CBC' | 'AES-GCM';
+  keyLength: number;
+}
+
+const CIPHERS: Record<PbeCipher, CipherInfo> = {
+  'AES-256-CBC': { oid: OID.aes256CBC, mode: 'AES-CBC', keyLength: 32 },
+  'AES-128-CBC': { oid: OID.aes128CBC, mode: 'AES-CBC', keyLength: 16 },
+  'AES-256-GCM': { oid: OID.aes256GCM, mode: 'AES-GCM', keyLength: 32 },
+  'AES-128-GCM': { oid: OID.aes128GCM, mode: 'AES-GCM', keyLength: 16 },
+};
+
+const PRF_OIDS: Record<PbkdfHash, string> = {
+  'SHA-1': OID.hmacWithSHA1,
+  'SHA-256': OID.hmacWithSHA256,
+  'SHA-384': OID.hmacWithSHA384,
+  'SHA-512': OID.hmacWithSHA512,
+};
+
+export function isEncryptedPrivateKey(pem: string): boolean {
+  return pem.includes(`-----BEGIN ${ENCRYPTED_PRIVATE_KEY_LABEL}-----`);
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+  hash: PbkdfHash,
+  cipher: CipherInfo
+): Promise<CryptoKey> {
+  const password = await window.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash },
+    password,
+    { name: cipher.mode, length: cipher.keyLength * 8 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function cipherParams(cipher: CipherInfo, iv: Uint8Array, tagLength: number = GCM_TAG_LENGTH): AesCbcParams | AesGcmParams {
+  return cipher.mode === 'AES-CBC'
+    ? { name: 'AES-CBC', iv }
+    : { name: 'AES-GCM', iv, tagLength: tagLength * 8 };
+}
+
+// Encrypt a DER PrivateKeyInfo, returning the DER EncryptedPrivateKeyInfo
+export async function encryptPrivateKeyInfo(
+  privateKeyInfo: Uint8Array,
+  passphrase: string,
+  options: PrivateKeyEncryptionOptions = {}
+): Promise<Uint8Array> {
+  if (!passphrase) {
+    throw new Error('A passphrase is required to encrypt the private key');
+  }
+  const cipher = CIPHERS[options.cipher ?? 'AES-256-CBC'];
+  const hash = options.hash ?? 'SHA-256';
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const salt = window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = window.crypto.getRandomValues(new Uint8Array(cipher.mode === 'AES-CBC' ? 16 : GCM_NONCE_LENGTH));
+
+  const key = await deriveKey(passphrase, salt, iterations, hash, cipher);
+  const encrypted = await window.crypto.subtle.encrypt(cipherParams(cipher, iv), key, privateKeyInfo);
+
+  // The PRF is omitted when it is the default hmacWithSHA1, and the key length is implied by the cipher
+  const pbkdf2Params = DER.sequence(
+    DER.octetString(salt),
+    DER.integer(iterations),
+    ...(hash === 'SHA-1' ? [] : [DER.sequence(DER.oid(PRF_OIDS[hash]), DER.null())])
+  );
+  const encryptionScheme = DER.sequence(
+    DER.oid(cipher.oid),
+    cipher.mode === 'AES-CBC'
+      ? DER.octetString(iv)
+      : DER.sequence(DER.octetString(iv), DER.integer(GCM_TAG_LENGTH))
+  );
+  return DER.sequence(
+    DER.sequence(
+      DER.oid(OID.pbes2),
+      DER.sequence(DER.sequence(DER.oid(OID.pbkdf2), pbkdf2Params), encryptionScheme)
+    ),
+    DER.octetString(new Uint8Array(encrypted))
+  );
+}
+
+function parsePbkdf2Params(node: ASN1Node | undefined): { salt: Uint8Array; iterations: number; keyLength?: number; hash: PbkdfHash } {
+  const params = DER.expect(node, Tag.SEQUENCE, 'PBKDF2-params');
+  const [saltNode, iterationsNode, ...rest] = params.children;
+  const salt = DER.expect(saltNode, Tag.OCTET_STRING, 'PBKDF2 salt').value;
+  const iterations = Number(DER.decodeInteger(DER.expect(iterationsNode, Tag.INTEGER, 'PBKDF2 iteration count')));
+
+  let keyLength: number | undefined;
+  let hash: PbkdfHash = 'SHA-1';
+  for (const field of rest) {
+    if (field.tag === Tag.INTEGER) {
+      keyLength = Number(DER.decodeInteger(field));
+    } else {
+      const prf = parseAlgorithmIdentifier(field).oid;
+      const match = (Object.keys(PRF_OIDS) as PbkdfHash[]).find(name => PRF_OIDS[name] === prf);
+      if (!match) {
+        throw new Error(`Unsupported PBKDF2 pseudorandom function ${oidName(prf)}`);
+      }
+      hash = match;
+    }
+  }
+  return { salt, iterations, keyLength, hash };
+}
+
+// Decrypt a DER EncryptedPrivateKeyInfo, returning the DER PrivateKeyInfo
+export async function decryptPrivateKeyInfo(encryptedPrivateKeyInfo: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const root = DER.expect(DER.decode(encryptedPrivateKeyInfo), Tag.SEQUENCE, 'EncryptedPrivateKeyInfo');
+  const algorithm = parseAlgorithmIdentifier(root.children[0]);
+  const encryptedData = DER.expect(root.children[1], Tag.OCTET_STRING, 'encryptedData').value;
+  if (algorithm.oid !== OID.pbes2) {
+    throw new Error(`Unsupported key encryption ${oidName(algorithm.oid)}; convert it with \`openssl pkcs8 -topk8 -v2 aes-256-cbc\``);
+  }
+
+  const pbes2 = DER.expect(algorithm.parameters, Tag.SEQUENCE, 'PBES2-params');
+  const kdf = parseAlgorithmIdentifier(pbes2.children[0]);
+  if (kdf.oid !== OID.pbkdf2) {
+    throw new Error(`Unsupported key derivation function ${oidName(kdf.oid)}`);
+  }
+  const { salt, iterations, keyLength, hash } = parsePbkdf2Params(kdf.parameters);
+
+  const scheme = parseAlgorithmIdentifier(pbes2.children[1]);
+  const cipherName = (Object.keys(CIPHERS) as PbeCipher[]).find(name => CIPHERS[name].oid === scheme.oid);
+  if (!cipherName) {
+    throw new Error(`Unsupported encryption scheme ${oidName(scheme.oid)}`);
+  }
+  const cipher = CIPHERS[cipherName];
+  if (keyLength !== undefined && keyLength !== cipher.keyLength) {
+    throw new Error(`PBKDF2 key length ${keyLength} does not match ${cipherName}`);
+  }
+
+  let iv: Uint8Array;
+  let tagLength: number | undefined;
+  if (cipher.mode === 'AES-CBC') {
+    iv = DER.expect(scheme.parameters, Tag.OCTET_STRING, 'AES-CBC IV').value;
+  } else {
+    const gcm = DER.expect(scheme.parameters, Tag.SEQUENCE, 'GCMParameters');
+    iv = DER.expect(gcm.children[0], Tag.OCTET_STRING, 'AES-GCM nonce').value;
+    // RFC 5084 defaults the ICV length to 12 bytes
+    tagLength = gcm.children[1] ? Number(DER.decodeInteger(gcm.children[1])) : 12;
+  }
+
+  const key = await deriveKey(passphrase, salt, iterations, hash, cipher);
+  let decrypted: Uint8Array;
+  try {
+    decrypted = new Uint8Array(await window.crypto.subtle.decrypt(cipherParams(cipher, iv, tagLength), key, encryptedData));
+    DER.expect(DER.decode(decrypted), Tag.SEQUENCE);
+  } catch {
+    // A wrong key shows up as bad CBC padding or a failed GCM tag, and rarely as valid padding over garbage
+    throw new Error('Incorrect passphrase, or the key is corrupted');
+  }
+  return decrypted;
+}
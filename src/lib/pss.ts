@@ -0,0 +1,104 @@
+// RSA-PSS salt length handling (RFC 8017 section 9.1)
+import { concatBytes, fromBase64Url } from './encoding';
+import { HASH_LENGTHS } from './x509';
+
+// A byte count, the digest length, or the largest salt the modulus allows
+export type PssSaltLength = number | 'digest' | 'max';
+
+// Defaults of common implementations: digest length (OpenSSL CLI, Java, .NET), 20 (SHA-1 era), 0 (deterministic)
+const COMMON_SALT_LENGTHS: PssSaltLength[] = ['digest', 'max', 32, 20, 0, 48, 64];
+
+function encodedLength(modulusLength: number): number {
+  return Math.ceil((modulusLength - 1) / 8);
+}
+
+export function resolveSaltLength(saltLength: PssSaltLength, hash: string, modulusLength: number): number {
+  const hashLength = HASH_LENGTHS[hash];
+  if (saltLength === 'digest') {
+    return hashLength;
+  }
+  const max = encodedLength(modulusLength) - hashLength - 2;
+  if (saltLength === 'max') {
+    return max;
+  }
+  if (!Number.isInteger(saltLength) || saltLength < 0 || saltLength > max) {
+    throw new Error(`Salt length must be between 0 and ${max} bytes for this key and hash`);
+  }
+  return saltLength;
+}
+
+async function mgf1(seed: Uint8Array, length: number, hash: string): Promise<Uint8Array> {
+  const blocks: Uint8Array[] = [];
+  for (let counter = 0, produced = 0; produced < length; counter++) {
+    const block = new Uint8Array(
+      await window.crypto.subtle.digest(hash, concatBytes(seed, new Uint8Array([counter >>> 24, counter >>> 16, counter >>> 8, counter])))
+    );
+    blocks.push(block);
+    produced += block.length;
+  }
+  return concatBytes(...blocks).subarray(0, length);
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+// Recover the salt length from the encoded message inside a signature (steps of EMSA-PSS-VERIFY).
+// Returns null when the signature does not decode as PSS with the given hash. The signature itself
+// is still to be verified; this only tells the verifier which salt length to use.
+export async function recoverSaltLength(publicKey: CryptoKey, signature: Uint8Array, hash: string): Promise<number | null> {
+  const jwk = await window.crypto.subtle.exportKey('jwk', publicKey);
+  const n = bytesToBigInt(fromBase64Url(jwk.n!));
+  const e = bytesToBigInt(fromBase64Url(jwk.e!));
+  const s = bytesToBigInt(signature);
+  if (s >= n) {
+    return null;
+  }
+
+  const modulusLength = (publicKey.algorithm as RsaHashedKeyAlgorithm).modulusLength;
+  const emLength = encodedLength(modulusLength);
+  const hashLength = HASH_LENGTHS[hash];
+  const em = new Uint8Array(emLength);
+  let m = modPow(s, e, n);
+  for (let i = emLength - 1; i >= 0; i--) {
+    em[i] = Number(m & 0xffn);
+    m >>= 8n;
+  }
+  if (m !== 0n || em[emLength - 1] !== 0xbc || emLength < hashLength + 2) {
+    return null;
+  }
+
+  const dbLength = emLength - hashLength - 1;
+  const h = em.subarray(dbLength, dbLength + hashLength);
+  const mask = await mgf1(h, dbLength, hash);
+  const db = em.subarray(0, dbLength).map((byte, i) => byte ^ mask[i]);
+  db[0] &= 0xff >>> (8 * emLength - (modulusLength - 1));
+  const separator = db.findIndex(byte => byte !== 0);
+  if (separator < 0 || db[separator] !== 0x01) {
+    return null;
+  }
+  return dbLength - separator - 1;
+}
+
+// Salt lengths to try, in order, when the encoded message cannot be inspected (e.g. a non-extractable key)
+export function commonSaltLengths(hash: string, modulusLength: number): number[] {
+  const lengths = COMMON_SALT_LENGTHS.map(saltLength => {
+    try {
+      return resolveSaltLength(saltLength, hash, modulusLength);
+    } catch {
+      return -1;
+    }
+  });
+  return [...new Set(lengths.filter(length => length >= 0))];
+}
@@ -0,0 +1,177 @@
+// Keccak-f[1600] sponge (FIPS 202) with 64-bit lanes held as pairs of 32-bit words
+import { IncrementalHash } from './digest';
+
+// Rotation offsets for lane x + 5y
+const RHO = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+// Round constants as [low, high] word pairs
+const ROUND_CONSTANTS = [
+  [0x00000001, 0x00000000], [0x00008082, 0x00000000], [0x0000808a, 0x80000000], [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000], [0x80000001, 0x00000000], [0x80008081, 0x80000000], [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000], [0x00000088, 0x00000000], [0x80008009, 0x00000000], [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000], [0x0000008b, 0x80000000], [0x00008089, 0x80000000], [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000], [0x00000080, 0x80000000], [0x0000800a, 0x00000000], [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000], [0x00008080, 0x80000000], [0x80000001, 0x00000000], [0x80008008, 0x80000000],
+];
+
+// Scratch space for keccakF, reused across permutations
+const c = new Uint32Array(10);
+const b = new Uint32Array(50);
+
+function keccakF(state: Uint32Array): void {
+  for (const [roundLow, roundHigh] of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[2 * x] = state[2 * x] ^ state[2 * x + 10] ^ state[2 * x + 20] ^ state[2 * x + 30] ^ state[2 * x + 40];
+      c[2 * x + 1] = state[2 * x + 1] ^ state[2 * x + 11] ^ state[2 * x + 21] ^ state[2 * x + 31] ^ state[2 * x + 41];
+    }
+    for (let x = 0; x < 5; x++) {
+      const next = ((x + 1) % 5) * 2;
+      const previous = ((x + 4) % 5) * 2;
+      const dLow = c[previous] ^ ((c[next] << 1) | (c[next + 1] >>> 31));
+      const dHigh = c[previous + 1] ^ ((c[next + 1] << 1) | (c[next] >>> 31));
+      for (let y = 0; y < 25; y += 5) {
+        state[2 * (x + y)] ^= dLow;
+        state[2 * (x + y) + 1] ^= dHigh;
+      }
+    }
+
+    // Rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const lane = x + 5 * y;
+        const low = state[2 * lane];
+        const high = state[2 * lane + 1];
+        const shift = RHO[lane];
+        const target = 2 * (y + 5 * ((2 * x + 3 * y) % 5));
+        if (shift === 0) {
+          b[target] = low;
+          b[target + 1] = high;
+        } else if (shift < 32) {
+          b[target] = (low << shift) | (high >>> (32 - shift));
+          b[target + 1] = (high << shift) | (low >>> (32 - shift));
+        } else if (shift === 32) {
+          b[target] = high;
+          b[target + 1] = low;
+        } else {
+          b[target] = (high << (shift - 32)) | (low >>> (64 - shift));
+          b[target + 1] = (low << (shift - 32)) | (high >>> (64 - shift));
+        }
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        const lane = 2 * (x + y);
+        const next = 2 * (((x + 1) % 5) + y);
+        const afterNext = 2 * (((x + 2) % 5) + y);
+        state[lane] = b[lane] ^ (~b[next] & b[afterNext]);
+        state[lane + 1] = b[lane + 1] ^ (~b[next + 1] & b[afterNext + 1]);
+      }
+    }
+
+    // Iota
+    state[0] ^= roundLow;
+    state[1] ^= roundHigh;
+  }
+}
+
+// Incremental sponge; `suffix` holds the domain separation bits (0x06 for SHA-3, 0x1f for SHAKE)
+class Keccak {
+  private readonly state = new Uint32Array(50);
+  private readonly rate: number;
+  private readonly suffix: number;
+  private offset = 0;
+
+  constructor(rate: number, suffix: number) {
+    this.rate = rate;
+    this.suffix = suffix;
+  }
+
+  private absorbByte(byte: number): void {
+    const lane = this.offset >> 2;
+    this.state[lane] ^= byte << ((this.offset & 3) * 8);
+    if (++this.offset === this.rate) {
+      keccakF(this.state);
+      this.offset = 0;
+    }
+  }
+
+  update(data: Uint8Array): this {
+    let i = 0;
+    while (i < data.length) {
+      // Every SHA-3/SHAKE rate is a whole number of 32-bit words, so aligned input is absorbed a word at a time
+      if ((this.offset & 3) === 0 && i + 4 <= data.length) {
+        this.state[this.offset >> 2] ^= data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24);
+        i += 4;
+        this.offset += 4;
+        if (this.offset === this.rate) {
+          keccakF(this.state);
+          this.offset = 0;
+        }
+      } else {
+        this.absorbByte(data[i++]);
+      }
+    }
+    return this;
+  }
+
+  digest(outputLength: number): Uint8Array {
+    this.state[this.offset >> 2] ^= this.suffix << ((this.offset & 3) * 8);
+    const last = this.rate - 1;
+    this.state[last >> 2] ^= 0x80 << ((last & 3) * 8);
+    keccakF(this.state);
+
+    const output = new Uint8Array(outputLength);
+    for (let i = 0, position = 0; i < outputLength; i++, position++) {
+      if (position === this.rate) {
+        keccakF(this.state);
+        position = 0;
+      }
+      output[i] = this.state[position >> 2] >>> ((position & 3) * 8);
+    }
+    return output;
+  }
+}
+
+export function shake256(data: Uint8Array, outputLength: number): Uint8Array {
+  return new Keccak(136, 0x1f).update(data).digest(outputLength);
+}
+
+export type Sha3Variant = 224 | 256 | 384 | 512;
+
+export class Sha3 implements IncrementalHash {
+  private readonly sponge: Keccak;
+
+  constructor(private readonly bits: Sha3Variant) {
+    this.sponge = new Keccak(200 - bits / 4, 0x06);
+  }
+
+  update(data: Uint8Array): this {
+    this.sponge.update(data);
+    return this;
+  }
+
+  digest(): Uint8Array {
+    return this.sponge.digest(this.bits / 8);
+  }
+}
+
+// SHAKE128/SHAKE256 extendable-output functions with a caller-chosen output length in bytes
+export class Shake implements IncrementalHash {
+  private readonly sponge: Keccak;
+
+  constructor(securityBits: 128 | 256, private readonly outputLength: number) {
+    this.sponge = new Keccak(200 - securityBits / 4, 0x1f);
+  }
+
+  update(data: Uint8Array): this {
+    this.sponge.update(data);
+    return this;
+  }
+
+  digest(): Uint8Array {
+    return this.sponge.digest(this.outputLength);
+  }
+}
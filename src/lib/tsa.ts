@@ -0,0 +1,236 @@
+// RFC 3161 time-stamping authority answering requests with CMS SignedData tokens
+import { CertificateAuthority } from './ca';
+import { createSignedData } from './cms';
+import { DER } from './asn1';
+import { fromPem } from './encoding';
+import { OID } from './oids';
+import {
+  PKIFailureInfo,
+  PKIStatus,
+  TimeStampRequest,
+  createTimeStampResponse,
+  encodeTSTInfo,
+  isTimeStampingCertificate,
+  parseTimeStampRequest,
+} from './tsp';
+import {
+  HASH_LENGTHS,
+  HASH_OIDS,
+  KeyUsage,
+  ParsedCertificate,
+  certificateToPem,
+  formatDN,
+  isSelfIssued,
+  parseAlgorithmIdentifier,
+  parseCertificate,
+  parseCertificateBundle,
+  randomSerialNumber,
+  signBytes,
+  verifySignedData,
+} from './x509';
+
+// Placeholder policy, as used by OpenSSL's sample TSA configuration
+export const DEFAULT_TSA_POLICY = '1.2.3.4.1';
+
+// RSASSA-PKCS1-v1_5 is used for TSA keys: OpenSSL's `ts -verify` does not accept RSA-PSS SignerInfos
+const TSA_KEY_ALGORITHM: RsaHashedImportParams = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+export interface TimestampAuthorityOptions {
+  policy?: string;
+  // Accuracy of genTime in seconds
+  accuracySeconds?: number;
+}
+
+export class TimestampAuthority {
+  readonly name: string;
+  readonly certificate: ParsedCertificate;
+  // Issuing CA certificates, from the TSA certificate's issuer up to the root
+  readonly chain: ParsedCertificate[];
+  readonly policy: string;
+  readonly accuracySeconds: number;
+  private readonly privateKey: CryptoKey;
+
+  private constructor(
+    certificate: ParsedCertificate,
+    chain: ParsedCertificate[],
+    privateKey: CryptoKey,
+    options: TimestampAuthorityOptions
+  ) {
+    this.certificate = certificate;
+    this.name = formatDN(certificate.subject);
+    this.chain = chain;
+    this.privateKey = privateKey;
+    this.policy = options.policy || DEFAULT_TSA_POLICY;
+    this.accuracySeconds = options.accuracySeconds ?? 1;
+  }
+
+  // Check the certificate is usable for time-stamping (RFC 3161 section 2.3) and matches the key
+  static async create(
+    privateKey: CryptoKey,
+    certificate: ParsedCertificate,
+    chain: ParsedCertificate[],
+    options: TimestampAuthorityOptions = {}
+  ): Promise<TimestampAuthority> {
+    try {
+      if (!isTimeStampingCertificate(certificate)) {
+        throw new Error('TSA certificate must have a critical extended key usage of id-kp-timeStamping only');
+      }
+
+      const probe = window.crypto.getRandomValues(new Uint8Array(32));
+      const { algorithmIdentifier, signature } = await signBytes(probe, privateKey);
+      const algorithm = parseAlgorithmIdentifier(DER.decode(algorithmIdentifier));
+      if (!(await verifySignedData(probe, algorithm, signature, certificate.subjectPublicKeyInfo))) {
+        throw new Error('Private key does not match the TSA certificate');
+      }
+      return new TimestampAuthority(certificate, chain, privateKey, options);
+    } catch (error) {
+      throw new Error(`Failed to configure timestamp authority: ${error}`);
+    }
+  }
+
+  // Load a TSA from a PKCS#8 RSA private key and PEM certificates (TSA certificate first, then its chain)
+  static async fromPem(
+    privateKeyPem: string,
+    certificatesPem: string,
+    options: TimestampAuthorityOptions = {}
+  ): Promise<TimestampAuthority> {
+    const [certificate, ...chain] = parseCertificateBundle(certificatesPem);
+    if (!certificate) {
+      throw new Error('Failed to configure timestamp authority: no PEM certificates found');
+    }
+
+    let privateKey: CryptoKey;
+    try {
+      const { der } = fromPem(privateKeyPem, 'PRIVATE KEY');
+      privateKey = await window.crypto.subtle.importKey('pkcs8', der, TSA_KEY_ALGORITHM, false, ['sign']);
+    } catch (error) {
+      throw new Error(`Failed to import TSA private key (PKCS#8 RSA expected): ${error}`);
+    }
+    return TimestampAuthority.create(privateKey, certificate, chain, options);
+  }
+
+  // Create a self-contained TSA: a local root CA and a time-stamping certificate issued by it
+  static async createLocal(options: TimestampAuthorityOptions = {}): Promise<TimestampAuthority> {
+    try {
+      const generate = () => window.crypto.subtle.generateKey(
+        { ...TSA_KEY_ALGORITHM, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+        false,
+        ['sign', 'verify']
+      );
+      const root = await CertificateAuthority.createRoot(
+        await generate(),
+        'CN=Local Timestamp Root CA, O=Secure Signify Vault',
+        3650,
+        0
+      );
+      const keyPair = await generate();
+      const der = await root.issue({
+        subject: 'CN=Local Timestamp Authority, O=Secure Signify Vault',
+        publicKey: keyPair.publicKey,
+        validityDays: 1825,
+        keyUsage: [KeyUsage.digitalSignature],
+        extendedKeyUsage: [OID.timeStamping],
+        criticalExtendedKeyUsage: true,
+      });
+      return TimestampAuthority.create(keyPair.privateKey, parseCertificate(der), [root.certificate], options);
+    } catch (error) {
+      throw new Error(`Failed to create local timestamp authority: ${error}`);
+    }
+  }
+
+  // TSA certificate followed by its chain, e.g. for `openssl ts -verify -CAfile`
+  get certificatesPem(): string {
+    return [this.certificate, ...this.chain].map(certificate => certificateToPem(certificate.der)).join('\n');
+  }
+
+  // Self-signed roots of the chain, to be trusted when verifying this TSA's tokens
+  get rootCertificatesPem(): string {
+    return this.chain.filter(isSelfIssued).map(certificate => certificateToPem(certificate.der)).join('\n');
+  }
+
+  // Answer a DER TimeStampReq with a DER TimeStampResp
+  async respond(requestDer: Uint8Array): Promise<Uint8Array> {
+    let request: TimeStampRequest;
+    try {
+      request = parseTimeStampRequest(requestDer);
+    } catch (error) {
+      return createTimeStampResponse(PKIStatus.rejection, {
+        statusText: (error as Error).message,
+        failInfo: [PKIFailureInfo.badDataFormat],
+      });
+    }
+
+    const { hashAlgorithm, hashedMessage } = request.messageImprint;
+    if (!HASH_OIDS[hashAlgorithm]) {
+      return createTimeStampResponse(PKIStatus.rejection, {
+        statusText: `Unsupported hash algorithm ${hashAlgorithm}`,
+        failInfo: [PKIFailureInfo.badAlg],
+      });
+    }
+    if (hashedMessage.length !== HASH_LENGTHS[hashAlgorithm]) {
+      return createTimeStampResponse(PKIStatus.rejection, {
+        statusText: 'Message imprint length does not match its hash algorithm',
+        failInfo: [PKIFailureInfo.badDataFormat],
+      });
+    }
+    if (request.reqPolicy && request.reqPolicy !== this.policy) {
+      return createTimeStampResponse(PKIStatus.rejection, {
+        statusText: `Policy ${request.reqPolicy} is not supported`,
+        failInfo: [PKIFailureInfo.unacceptedPolicy],
+      });
+    }
+
+    try {
+      return createTimeStampResponse(PKIStatus.granted, { token: await this.createToken(request) });
+    } catch {
+      return createTimeStampResponse(PKIStatus.rejection, { failInfo: [PKIFailureInfo.systemFailure] });
+    }
+  }
+
+  private async createToken(request: TimeStampRequest): Promise<Uint8Array> {
+    const genTime = new Date();
+    const tstInfo = encodeTSTInfo({
+      policy: this.policy,
+      messageImprint: request.messageImprint,
+      serialNumber: randomSerialNumber(),
+      genTime,
+      accuracy: { seconds: this.accuracySeconds },
+      nonce: request.nonce,
+      tsaName: this.certificate.subjectDer,
+    });
+    // The TSA certificate must be included when requested and omitted otherwise; roots never need to be
+    const certificates = request.certReq
+      ? [this.certificate, ...this.chain.filter(certificate => !isSelfIssued(certificate))]
+      : [];
+    return createSignedData({
+      contentType: OID.tstInfo,
+      content: tstInfo,
+      signingKey: this.privateKey,
+      signerCertificate: this.certificate,
+      certificates,
+      signingTime: genTime,
+    });
+  }
+}
+
+let localAuthority: Promise<TimestampAuthority> | null = null;
+let configuredAuthority: TimestampAuthority | null = null;
+
+// The TSA used for new timestamps: a user-configured one, else the in-app TSA created on first use
+export function getDefaultTimestampAuthority(): Promise<TimestampAuthority> {
+  if (configuredAuthority) {
+    return Promise.resolve(configuredAuthority);
+  }
+  if (!localAuthority) {
+    localAuthority = TimestampAuthority.createLocal();
+    localAuthority.catch(() => {
+      localAuthority = null;
+    });
+  }
+  return localAuthority;
+}
+
+// Use a TSA loaded from the user's key and certificate, or pass null to return to the in-app TSA
+export function configureTimestampAuthority(authority: TimestampAuthority | null): void {
+  configuredAuthority = authority;
+}
@@ -0,0 +1,380 @@
+// Time-Stamp Protocol messages (RFC 3161): requests, TSTInfo and responses
+import { ASN1Node, DER, Tag, TagClass } from './asn1';
+import { OID } from './oids';
+import { bytesEqual } from './encoding';
+import { findSignerCertificate, matchesSigningCertificate, parseSignedData, verifySignerInfo } from './cms';
+import { validateCertificatePath } from './pathValidation';
+import {
+  DecodedGeneralName,
+  HASH_NAMES,
+  HASH_OIDS,
+  ParsedCertificate,
+  decodeExtKeyUsage,
+  decodeGeneralName,
+  formatDN,
+  getExtension,
+  parseAlgorithmIdentifier,
+} from './x509';
+
+export const PKIStatus = {
+  granted: 0,
+  grantedWithMods: 1,
+  rejection: 2,
+  waiting: 3,
+  revocationWarning: 4,
+  revocationNotification: 5,
+} as const;
+
+export const PKI_STATUS_NAMES: Record<number, string> = {
+  0: 'Granted',
+  1: 'Granted With Modifications',
+  2: 'Rejection',
+  3: 'Waiting',
+  4: 'Revocation Warning',
+  5: 'Revocation Notification',
+};
+
+// Bit positions in PKIFailureInfo
+export const PKIFailureInfo = {
+  badAlg: 0,
+  badRequest: 2,
+  badDataFormat: 5,
+  timeNotAvailable: 14,
+  unacceptedPolicy: 15,
+  unacceptedExtension: 16,
+  addInfoNotAvailable: 17,
+  systemFailure: 25,
+} as const;
+
+export interface MessageImprint {
+  // WebCrypto digest name
+  hashAlgorithm: string;
+  hashedMessage: Uint8Array;
+}
+
+export interface TimeStampRequest {
+  der: Uint8Array;
+  messageImprint: MessageImprint;
+  reqPolicy?: string;
+  nonce?: Uint8Array;
+  certReq: boolean;
+}
+
+export interface TimeStampRequestOptions {
+  reqPolicy?: string;
+  nonce?: Uint8Array;
+  certReq?: boolean;
+}
+
+export interface Accuracy {
+  seconds?: number;
+  millis?: number;
+  micros?: number;
+}
+
+export interface TSTInfoTemplate {
+  policy: string;
+  messageImprint: MessageImprint;
+  serialNumber: Uint8Array;
+  genTime: Date;
+  accuracy?: Accuracy;
+  nonce?: Uint8Array;
+  // DER of the TSA's subject name, carried as a directoryName
+  tsaName?: Uint8Array;
+}
+
+export interface TSTInfo {
+  der: Uint8Array;
+  policy: string;
+  messageImprint: MessageImprint;
+  serialNumber: Uint8Array;
+  genTime: Date;
+  accuracy?: Accuracy;
+  ordering: boolean;
+  nonce?: Uint8Array;
+  tsa?: DecodedGeneralName;
+}
+
+export interface TimeStampResponse {
+  status: number;
+  statusText?: string;
+  failInfo: number[];
+  // DER ContentInfo holding the SignedData token when the request was granted
+  token?: Uint8Array;
+}
+
+// Why a token failed verification, most fundamental first
+export type TimeStampFailure =
+  | 'malformed'
+  | 'rejected'
+  | 'tampered'
+  | 'wrongDocument'
+  | 'untrustedTsa'
+  | 'expiredTsaCertificate';
+
+export interface TimeStampVerificationOptions {
+  // The time-stamped document, or its digest under the token's imprint algorithm; neither skips the check
+  data?: Uint8Array;
+  hashedMessage?: Uint8Array;
+  trustAnchors: ParsedCertificate[];
+  // Searched besides the embedded certificates, e.g. for tokens requested without certReq
+  certificates?: ParsedCertificate[];
+  time?: Date;
+}
+
+export interface TimeStampVerification {
+  valid: boolean;
+  failure?: TimeStampFailure;
+  reason?: string;
+  tstInfo?: TSTInfo;
+  signer?: ParsedCertificate;
+  imprintChecked: boolean;
+}
+
+export function encodeMessageImprint(imprint: MessageImprint): Uint8Array {
+  const oid = HASH_OIDS[imprint.hashAlgorithm];
+  if (!oid) {
+    throw new Error(`Unsupported message imprint hash: ${imprint.hashAlgorithm}`);
+  }
+  return DER.sequence(DER.sequence(DER.oid(oid), DER.null()), DER.octetString(imprint.hashedMessage));
+}
+
+function decodeMessageImprint(node: ASN1Node): MessageImprint {
+  const [algorithmNode, hashNode] = DER.expect(node, Tag.SEQUENCE, 'MessageImprint').children;
+  const oid = parseAlgorithmIdentifier(algorithmNode).oid;
+  return {
+    hashAlgorithm: HASH_NAMES[oid] ?? oid,
+    hashedMessage: DER.expect(hashNode, Tag.OCTET_STRING, 'hashedMessage').value,
+  };
+}
+
+export function createTimeStampRequest(
+  messageImprint: MessageImprint,
+  options: TimeStampRequestOptions = {}
+): Uint8Array {
+  return DER.sequence(
+    DER.integer(1),
+    encodeMessageImprint(messageImprint),
+    ...(options.reqPolicy ? [DER.oid(options.reqPolicy)] : []),
+    ...(options.nonce ? [DER.integer(options.nonce)] : []),
+    ...(options.certReq ? [DER.boolean(true)] : [])
+  );
+}
+
+export function parseTimeStampRequest(der: Uint8Array): TimeStampRequest {
+  try {
+    const [versionNode, imprintNode, ...optional] = DER.expect(DER.decode(der), Tag.SEQUENCE, 'TimeStampReq').children;
+    if (DER.decodeInteger(versionNode) !== 1n) {
+      throw new Error(`Unsupported version ${DER.decodeInteger(versionNode)}`);
+    }
+    const universal = (tag: number) => optional.find(node => node.tagClass === TagClass.UNIVERSAL && node.tag === tag);
+    const policyNode = universal(Tag.OID);
+    const nonceNode = universal(Tag.INTEGER);
+    const certReqNode = universal(Tag.BOOLEAN);
+    return {
+      der,
+      messageImprint: decodeMessageImprint(imprintNode),
+      reqPolicy: policyNode ? DER.decodeOid(policyNode) : undefined,
+      nonce: nonceNode ? DER.decodeIntegerBytes(nonceNode) : undefined,
+      certReq: certReqNode ? DER.decodeBoolean(certReqNode) : false,
+    };
+  } catch (error) {
+    throw new Error(`Malformed time-stamp request: ${(error as Error).message}`);
+  }
+}
+
+export function encodeTSTInfo(template: TSTInfoTemplate): Uint8Array {
+  const accuracy = template.accuracy;
+  return DER.sequence(
+    DER.integer(1),
+    DER.oid(template.policy),
+    encodeMessageImprint(template.messageImprint),
+    DER.integer(template.serialNumber),
+    DER.generalizedTime(template.genTime),
+    ...(accuracy
+      ? [DER.sequence(
+          ...(accuracy.seconds ? [DER.integer(accuracy.seconds)] : []),
+          ...(accuracy.millis ? [DER.implicit(0, DER.integer(accuracy.millis).subarray(2))] : []),
+          ...(accuracy.micros ? [DER.implicit(1, DER.integer(accuracy.micros).subarray(2))] : [])
+        )]
+      : []),
+    ...(template.nonce ? [DER.integer(template.nonce)] : []),
+    ...(template.tsaName ? [DER.explicit(0, DER.explicit(4, template.tsaName))] : [])
+  );
+}
+
+function decodeAccuracy(node: ASN1Node): Accuracy {
+  const accuracy: Accuracy = {};
+  for (const child of node.children) {
+    const value = Number(DER.decodeInteger(child));
+    if (child.tagClass === TagClass.UNIVERSAL) {
+      accuracy.seconds = value;
+    } else if (child.tag === 0) {
+      accuracy.millis = value;
+    } else if (child.tag === 1) {
+      accuracy.micros = value;
+    }
+  }
+  return accuracy;
+}
+
+export function parseTSTInfo(der: Uint8Array): TSTInfo {
+  try {
+    const [versionNode, policyNode, imprintNode, serialNode, genTimeNode, ...optional] =
+      DER.expect(DER.decode(der), Tag.SEQUENCE, 'TSTInfo').children;
+    if (DER.decodeInteger(versionNode) !== 1n) {
+      throw new Error(`Unsupported version ${DER.decodeInteger(versionNode)}`);
+    }
+    const universal = (tag: number) => optional.find(node => node.tagClass === TagClass.UNIVERSAL && node.tag === tag);
+    const accuracyNode = universal(Tag.SEQUENCE);
+    const orderingNode = universal(Tag.BOOLEAN);
+    const nonceNode = universal(Tag.INTEGER);
+    const tsaNode = optional.find(node => node.tagClass === TagClass.CONTEXT && node.tag === 0);
+    return {
+      der,
+      policy: DER.decodeOid(policyNode),
+      messageImprint: decodeMessageImprint(imprintNode),
+      serialNumber: DER.decodeIntegerBytes(serialNode),
+      genTime: DER.decodeTime(genTimeNode),
+      accuracy: accuracyNode ? decodeAccuracy(accuracyNode) : undefined,
+      ordering: orderingNode ? DER.decodeBoolean(orderingNode) : false,
+      nonce: nonceNode ? DER.decodeIntegerBytes(nonceNode) : undefined,
+      tsa: tsaNode ? decodeGeneralName(tsaNode.children[0]) : undefined,
+    };
+  } catch (error) {
+    throw new Error(`Malformed TSTInfo: ${(error as Error).message}`);
+  }
+}
+
+export function createTimeStampResponse(
+  status: number,
+  options: { token?: Uint8Array; statusText?: string; failInfo?: number[] } = {}
+): Uint8Array {
+  const statusInfo = DER.sequence(
+    DER.integer(status),
+    ...(options.statusText ? [DER.sequence(DER.tlv(Tag.UTF8_STRING, new TextEncoder().encode(options.statusText)))] : []),
+    ...(options.failInfo?.length ? [DER.namedBits(options.failInfo)] : [])
+  );
+  return DER.sequence(statusInfo, ...(options.token ? [options.token] : []));
+}
+
+export function parseTimeStampResponse(der: Uint8Array): TimeStampResponse {
+  try {
+    const [statusInfoNode, tokenNode] = DER.expect(DER.decode(der), Tag.SEQUENCE, 'TimeStampResp').children;
+    const [statusNode, ...rest] = DER.expect(statusInfoNode, Tag.SEQUENCE, 'PKIStatusInfo').children;
+    const textNode = rest.find(node => node.tag === Tag.SEQUENCE);
+    const failInfoNode = rest.find(node => node.tag === Tag.BIT_STRING);
+    return {
+      status: Number(DER.decodeInteger(statusNode)),
+      statusText: textNode?.children.map(node => DER.decodeString(node)).join('; '),
+      failInfo: failInfoNode ? DER.decodeNamedBits(failInfoNode) : [],
+      token: tokenNode?.raw,
+    };
+  } catch (error) {
+    throw new Error(`Malformed time-stamp response: ${(error as Error).message}`);
+  }
+}
+
+// RFC 3161 section 2.3: the TSA certificate must carry exactly one, critical, extended key usage of timeStamping
+export function isTimeStampingCertificate(certificate: ParsedCertificate): boolean {
+  const extKeyUsage = getExtension(certificate, OID.extKeyUsage);
+  if (!extKeyUsage?.critical) {
+    return false;
+  }
+  const purposes = decodeExtKeyUsage(extKeyUsage.value);
+  return purposes.length === 1 && purposes[0] === OID.timeStamping;
+}
+
+// Verify a TimeStampResp or bare TimeStampToken: the CMS signature, the ESS binding to the TSA
+// certificate, the message imprint, the TSA certificate's EKU and validity, and its chain to a trust anchor
+export async function verifyTimeStampToken(
+  der: Uint8Array,
+  options: TimeStampVerificationOptions
+): Promise<TimeStampVerification> {
+  const fail = (failure: TimeStampFailure, reason: string, details: Partial<TimeStampVerification> = {}) =>
+    ({ valid: false, failure, reason, imprintChecked: false, ...details });
+
+  let tokenDer = der;
+  let signedData: ReturnType<typeof parseSignedData>;
+  let tstInfo: TSTInfo;
+  try {
+    const outer = DER.decode(der);
+    // A TimeStampResp starts with PKIStatusInfo; a token starts with the ContentInfo OID
+    if (outer.children[0]?.tag === Tag.SEQUENCE) {
+      const response = parseTimeStampResponse(der);
+      if (!response.token) {
+        return fail('rejected', `TSA response status: ${PKI_STATUS_NAMES[response.status] ?? response.status}${response.statusText ? ` (${response.statusText})` : ''}`);
+      }
+      tokenDer = response.token;
+    }
+    signedData = parseSignedData(tokenDer);
+    if (signedData.contentType !== OID.tstInfo || !signedData.content) {
+      return fail('malformed', 'SignedData does not encapsulate a TSTInfo');
+    }
+    tstInfo = parseTSTInfo(signedData.content);
+  } catch (error) {
+    return fail('malformed', (error as Error).message);
+  }
+
+  const signerInfo = signedData.signers[0];
+  if (!signerInfo) {
+    return fail('malformed', 'Token has no SignerInfo', { tstInfo });
+  }
+  const signer = findSignerCertificate(signerInfo, [...signedData.certificates, ...(options.certificates ?? [])]);
+  if (!signer) {
+    return fail('untrustedTsa', 'TSA certificate is neither embedded in the token nor supplied', { tstInfo });
+  }
+
+  try {
+    if (!(await verifySignerInfo(signerInfo, signedData.content, signer))) {
+      return fail('tampered', 'TSA signature does not match the token contents', { tstInfo, signer });
+    }
+    if (!(await matchesSigningCertificate(signerInfo, signer))) {
+      return fail('tampered', 'Signed attributes do not identify the TSA certificate (ESS signing-certificate)', { tstInfo, signer });
+    }
+  } catch (error) {
+    return fail('tampered', `TSA signature could not be checked: ${(error as Error).message}`, { tstInfo, signer });
+  }
+
+  let imprintChecked = false;
+  const { hashAlgorithm, hashedMessage } = tstInfo.messageImprint;
+  if (options.data || options.hashedMessage) {
+    if (!HASH_OIDS[hashAlgorithm]) {
+      return fail('malformed', `Unsupported message imprint algorithm ${hashAlgorithm}`, { tstInfo, signer });
+    }
+    const expected = options.data
+      ? new Uint8Array(await window.crypto.subtle.digest(hashAlgorithm, options.data))
+      : options.hashedMessage!;
+    if (!bytesEqual(expected, hashedMessage)) {
+      return fail('wrongDocument', `${hashAlgorithm} message imprint does not match the supplied document`, { tstInfo, signer });
+    }
+    imprintChecked = true;
+  }
+
+  const details = { tstInfo, signer, imprintChecked };
+  if (!isTimeStampingCertificate(signer)) {
+    return fail('untrustedTsa', 'Signer certificate lacks the critical id-kp-timeStamping extended key usage', details);
+  }
+  if (tstInfo.tsa?.type === 'directory' && tstInfo.tsa.value !== formatDN(signer.subject)) {
+    return fail('untrustedTsa', `TSA name ${tstInfo.tsa.value} does not match the signer certificate`, details);
+  }
+  const time = options.time ?? new Date();
+  if (tstInfo.genTime < signer.notBefore || tstInfo.genTime > signer.notAfter) {
+    return fail('expiredTsaCertificate', `TSA certificate was not valid at genTime ${tstInfo.genTime.toISOString()}`, details);
+  }
+  if (time > signer.notAfter) {
+    return fail('expiredTsaCertificate', `TSA certificate expired on ${signer.notAfter.toISOString()}`, details);
+  }
+
+  const path = await validateCertificatePath(signer, {
+    intermediates: [...signedData.certificates, ...(options.certificates ?? [])],
+    trustAnchors: options.trustAnchors,
+    time,
+  });
+  if (path.status !== 'valid') {
+    const failed = path.verdicts.find(verdict => !verdict.valid);
+    return fail('untrustedTsa', failed ? `${failed.subject}: ${failed.reasons.join('; ')}` : 'TSA certificate chain is not trusted', details);
+  }
+
+  return { valid: true, ...details };
+}
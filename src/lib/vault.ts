@@ -0,0 +1,277 @@
+// Master-password vault. Records are sealed with AES-256-GCM under a key derived from the password with
+// PBKDF2 (WebCrypto has no Argon2id); the derived key is non-extractable and only held in memory while unlocked.
+import { KEY_STORE, RECORD_STORE, VAULT_STORE, withStore, withTransaction } from './database';
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+export interface VaultInfo {
+  createdAt: string;
+  iterations: number;
+  // Lock after this many minutes without user activity; 0 disables auto-lock. Sealed with the
+  // vault key, so only known while the vault is unlocked
+  autoLockMinutes?: number;
+}
+
+export interface VaultRecordInput {
+  collection: string;
+  id: string;
+  value: unknown;
+}
+
+interface SealedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Settings sealed as the meta record's check value, so they cannot be changed without the vault key
+interface VaultSettings {
+  // A known value, to tell a wrong password from a corrupted record
+  check: typeof CHECK_VALUE;
+  autoLockMinutes: number;
+}
+
+interface VaultMeta extends Omit<VaultInfo, 'autoLockMinutes'> {
+  id: typeof META_ID;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; salt: Uint8Array };
+  // VaultSettings sealed under the vault key
+  check: SealedValue;
+}
+
+interface VaultRecord {
+  collection: string;
+  id: string;
+  value: SealedValue;
+}
+
+const META_ID = 'meta';
+const CHECK_VALUE = 'secure-signify-vault';
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+let vaultKey: CryptoKey | null = null;
+
+// Fired with type 'change' when the vault is created, unlocked or locked
+export const vaultEvents = new EventTarget();
+
+function notifyChange() {
+  vaultEvents.dispatchEvent(new Event('change'));
+}
+
+async function deriveVaultKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await window.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Records are bound to their collection and id, so a sealed value cannot be swapped for another
+function recordAad(collection: string, id: string): Uint8Array {
+  return new TextEncoder().encode(`${collection}/${id}`);
+}
+
+async function seal(key: CryptoKey, aad: Uint8Array, value: unknown): Promise<SealedValue> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const data = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: aad },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv, data };
+}
+
+async function unseal<T>(key: CryptoKey, aad: Uint8Array, sealed: SealedValue): Promise<T> {
+  const plaintext = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv, additionalData: aad }, key, sealed.data);
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+function readMeta(): Promise<VaultMeta | undefined> {
+  return withStore<VaultMeta | undefined>(VAULT_STORE, 'readonly', store => store.get(META_ID));
+}
+
+function sealSettings(key: CryptoKey, autoLockMinutes: number): Promise<SealedValue> {
+  const settings: VaultSettings = { check: CHECK_VALUE, autoLockMinutes };
+  return seal(key, recordAad(VAULT_STORE, META_ID), settings);
+}
+
+async function readSettings(meta: VaultMeta, key: CryptoKey): Promise<VaultSettings> {
+  const settings = await unseal<VaultSettings>(key, recordAad(VAULT_STORE, META_ID), meta.check);
+  if (settings.check !== CHECK_VALUE) {
+    throw new Error('The vault metadata is corrupted');
+  }
+  return settings;
+}
+
+async function newMeta(
+  password: string,
+  createdAt: string,
+  autoLockMinutes: number
+): Promise<{ meta: VaultMeta; key: CryptoKey }> {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveVaultKey(password, salt, PBKDF2_ITERATIONS);
+  const meta: VaultMeta = {
+    id: META_ID,
+    createdAt,
+    iterations: PBKDF2_ITERATIONS,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', salt },
+    check: await sealSettings(key, autoLockMinutes),
+  };
+  return { meta, key };
+}
+
+// Derive the key for a password, rejecting it unless it opens the check value
+async function openVault(meta: VaultMeta, password: string): Promise<{ key: CryptoKey; settings: VaultSettings }> {
+  const key = await deriveVaultKey(password, meta.kdf.salt, meta.iterations);
+  try {
+    return { key, settings: await readSettings(meta, key) };
+  } catch {
+    throw new Error('Incorrect master password');
+  }
+}
+
+function requireKey(): CryptoKey {
+  if (!vaultKey) {
+    throw new Error('The vault is locked');
+  }
+  return vaultKey;
+}
+
+function requirePassword(password: string) {
+  if (!password) {
+    throw new Error('A master password is required');
+  }
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  if (vaultKey) {
+    return 'unlocked';
+  }
+  return (await readMeta()) ? 'locked' : 'none';
+}
+
+export function isVaultUnlocked(): boolean {
+  return vaultKey !== null;
+}
+
+export async function hasVault(): Promise<boolean> {
+  return vaultKey !== null || (await readMeta()) !== undefined;
+}
+
+export async function getVaultInfo(): Promise<VaultInfo | undefined> {
+  const meta = await readMeta();
+  if (!meta) {
+    return undefined;
+  }
+  const info: VaultInfo = { createdAt: meta.createdAt, iterations: meta.iterations };
+  return vaultKey ? { ...info, autoLockMinutes: (await readSettings(meta, vaultKey)).autoLockMinutes } : info;
+}
+
+// Create the vault and seal the initial records. The plaintext keystore is emptied in the same
+// transaction, so its keys must be among the records, apart from the entries in keptKeys that cannot be sealed.
+export async function createVault(password: string, records: VaultRecordInput[] = [], keptKeys: { id: string }[] = []): Promise<void> {
+  requirePassword(password);
+  if (await readMeta()) {
+    throw new Error('A vault already exists');
+  }
+  const { meta, key } = await newMeta(password, new Date().toISOString(), DEFAULT_AUTO_LOCK_MINUTES);
+  const sealed: VaultRecord[] = await Promise.all(records.map(async ({ collection, id, value }) => ({
+    collection,
+    id,
+    value: await seal(key, recordAad(collection, id), value),
+  })));
+
+  await withTransaction([VAULT_STORE, RECORD_STORE, KEY_STORE], 'readwrite', transaction => {
+    transaction.objectStore(VAULT_STORE).add(meta);
+    sealed.forEach(record => transaction.objectStore(RECORD_STORE).put(record));
+    transaction.objectStore(KEY_STORE).clear();
+    keptKeys.forEach(entry => transaction.objectStore(KEY_STORE).put(entry));
+  });
+  vaultKey = key;
+  notifyChange();
+}
+
+export async function unlockVault(password: string): Promise<void> {
+  const meta = await readMeta();
+  if (!meta) {
+    throw new Error('No vault has been created');
+  }
+  vaultKey = (await openVault(meta, password)).key;
+  notifyChange();
+}
+
+export function lockVault(): void {
+  if (vaultKey) {
+    vaultKey = null;
+    notifyChange();
+  }
+}
+
+// Re-encrypt every record under a key derived from the new password, with a fresh salt
+export async function changeVaultPassword(currentPassword: string, newPassword: string): Promise<void> {
+  requirePassword(newPassword);
+  const meta = await readMeta();
+  if (!meta) {
+    throw new Error('No vault has been created');
+  }
+  const { key: currentKey, settings } = await openVault(meta, currentPassword);
+  const records = await withStore<VaultRecord[]>(RECORD_STORE, 'readonly', store => store.getAll());
+  const { meta: updatedMeta, key } = await newMeta(newPassword, meta.createdAt, settings.autoLockMinutes);
+  const resealed: VaultRecord[] = await Promise.all(records.map(async ({ collection, id, value }) => {
+    const aad = recordAad(collection, id);
+    return { collection, id, value: await seal(key, aad, await unseal(currentKey, aad, value)) };
+  }));
+
+  await withTransaction([VAULT_STORE, RECORD_STORE], 'readwrite', transaction => {
+    transaction.objectStore(VAULT_STORE).put(updatedMeta);
+    resealed.forEach(record => transaction.objectStore(RECORD_STORE).put(record));
+  });
+  vaultKey = key;
+  notifyChange();
+}
+
+// Resealed with the vault key, so the setting can only be changed while unlocked
+export async function setVaultAutoLock(minutes: number): Promise<void> {
+  const key = requireKey();
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error('Auto-lock must be a whole number of minutes');
+  }
+  const meta = await readMeta();
+  if (!meta) {
+    throw new Error('No vault has been created');
+  }
+  const updatedMeta: VaultMeta = { ...meta, check: await sealSettings(key, minutes) };
+  await withStore(VAULT_STORE, 'readwrite', store => store.put(updatedMeta));
+  notifyChange();
+}
+
+export async function putVaultRecord(collection: string, id: string, value: unknown): Promise<void> {
+  const record: VaultRecord = { collection, id, value: await seal(requireKey(), recordAad(collection, id), value) };
+  await withStore(RECORD_STORE, 'readwrite', store => store.put(record));
+}
+
+export async function getVaultRecord<T>(collection: string, id: string): Promise<T | undefined> {
+  const key = requireKey();
+  const record = await withStore<VaultRecord | undefined>(RECORD_STORE, 'readonly', store => store.get([collection, id]));
+  return record && unseal<T>(key, recordAad(collection, id), record.value);
+}
+
+export async function listVaultRecords<T>(collection: string): Promise<T[]> {
+  const key = requireKey();
+  const records = await withStore<VaultRecord[]>(RECORD_STORE, 'readonly', store => store.index('collection').getAll(collection));
+  return Promise.all(records.map(record => unseal<T>(key, recordAad(collection, record.id), record.value)));
+}
+
+export async function deleteVaultRecord(collection: string, id: string): Promise<void> {
+  requireKey();
+  await withStore(RECORD_STORE, 'readwrite', store => store.delete([collection, id]));
+}
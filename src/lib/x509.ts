@@ -0,0 +1,891 @@
+// X.509 v3 certificate construction and parsing (RFC 5280)
+import { ASN1Node, DER, Tag, TagClass } from './asn1';
+import { DN_ATTRIBUTES, OID, oidName } from './oids';
+import { fromBase64, fromHex, fromPem, toHex, toPem } from './encoding';
+import { edCurveOf, edSign, edVerify, exportEdKey, importEdKey, isEdKey } from './eddsa';
+
+export interface DNAttribute {
+  type: string; // attribute OID
+  value: string;
+}
+
+// One RDN may hold several attributes joined with '+'
+export type RelativeDistinguishedName = DNAttribute[];
+// RDNs in encoding order (most significant first, e.g. C before CN)
+export type DistinguishedName = RelativeDistinguishedName[];
+
+export interface Extension {
+  oid: string;
+  critical: boolean;
+  value: Uint8Array; // DER contents of extnValue
+}
+
+export interface CertificateTemplate {
+  serialNumber?: Uint8Array;
+  subject: DistinguishedName;
+  issuer: DistinguishedName;
+  notBefore: Date;
+  notAfter: Date;
+  // A CryptoKey or the DER-encoded SubjectPublicKeyInfo (e.g. taken from a CSR)
+  publicKey: CryptoKey | Uint8Array;
+  extensions?: Extension[];
+}
+
+export const KeyUsage = {
+  digitalSignature: 0,
+  nonRepudiation: 1,
+  keyEncipherment: 2,
+  dataEncipherment: 3,
+  keyAgreement: 4,
+  keyCertSign: 5,
+  cRLSign: 6,
+  encipherOnly: 7,
+  decipherOnly: 8,
+} as const;
+
+const PRINTABLE_ATTRIBUTES = new Set<string>([OID.countryName, OID.serialNumber]);
+const IA5_ATTRIBUTES = new Set<string>([OID.emailAddress, OID.domainComponent]);
+
+// Parse an RFC 4514 string such as "CN=example.com,O=Organization,C=US"
+// (or OpenSSL's "/C=US/O=Organization/CN=example.com")
+export function parseDN(input: string): DistinguishedName {
+  const text = input.trim();
+  if (!text) {
+    throw new Error('Distinguished name is empty');
+  }
+  const slashForm = text.startsWith('/');
+  const separator = slashForm ? '/' : ',';
+  const rdnStrings = splitUnescaped(slashForm ? text.substring(1) : text, separator);
+
+  const rdns = rdnStrings.map(rdnString => splitUnescaped(rdnString, '+').map(pair => {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid distinguished name component: "${pair.trim()}"`);
+    }
+    const name = pair.substring(0, index).trim();
+    const value = unescapeValue(pair.substring(index + 1).trim());
+    const key = Object.keys(DN_ATTRIBUTES).find(k => k.toLowerCase() === name.toLowerCase());
+    const type = key ? DN_ATTRIBUTES[key] : /^\d+(\.\d+)+$/.test(name) ? name : null;
+    if (!type) {
+      throw new Error(`Unknown distinguished name attribute: ${name}`);
+    }
+    if (!value) {
+      throw new Error(`Empty value for attribute ${name}`);
+    }
+    if (type === OID.countryName && !/^[A-Za-z]{2}$/.test(value)) {
+      throw new Error('Country (C) must be a two-letter code');
+    }
+    return { type, value };
+  }));
+
+  // RFC 4514 strings list the least significant RDN first
+  return slashForm ? rdns : rdns.reverse();
+}
+
+// Format as an RFC 4514 string
+export function formatDN(dn: DistinguishedName): string {
+  return [...dn].reverse().map(rdn => rdn.map(attribute => {
+    const name = Object.keys(DN_ATTRIBUTES).find(k => DN_ATTRIBUTES[k] === attribute.type) ?? attribute.type;
+    return `${name}=${escapeValue(attribute.value)}`;
+  }).join('+')).join(', ');
+}
+
+export function getDNAttribute(dn: DistinguishedName, type: string): string | undefined {
+  for (let i = dn.length - 1; i >= 0; i--) {
+    const attribute = dn[i].find(a => a.type === type);
+    if (attribute) return attribute.value;
+  }
+  return undefined;
+}
+
+export function encodeDN(dn: DistinguishedName): Uint8Array {
+  return DER.sequence(...dn.map(rdn => DER.set(...rdn.map(attribute => {
+    let value: Uint8Array;
+    if (PRINTABLE_ATTRIBUTES.has(attribute.type)) {
+      value = DER.printableString(attribute.value);
+    } else if (IA5_ATTRIBUTES.has(attribute.type)) {
+      value = DER.ia5String(attribute.value);
+    } else {
+      value = DER.utf8String(attribute.value);
+    }
+    return DER.sequence(DER.oid(attribute.type), value);
+  }))));
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current += text[i] + text[i + 1];
+      i++;
+    } else if (text[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += text[i];
+    }
+  }
+  parts.push(current);
+  return parts.filter(part => part.trim() !== '');
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([0-9a-fA-F]{2}|.)/g, (_, escaped: string) =>
+    escaped.length === 2 ? String.fromCharCode(parseInt(escaped, 16)) : escaped
+  );
+}
+
+function escapeValue(value: string): string {
+  return value
+    .replace(/([,+"\\<>;=])/g, '\\$1')
+    .replace(/^([ #])/, '\\$1')
+    .replace(/ $/, '\\ ');
+}
+
+// 16 random bytes, kept positive and non-zero as RFC 5280 requires
+export function randomSerialNumber(): Uint8Array {
+  const serial = window.crypto.getRandomValues(new Uint8Array(16));
+  serial[0] = (serial[0] & 0x7f) | 0x01;
+  return serial;
+}
+
+export function formatSerialNumber(serial: Uint8Array): string {
+  return toHex(serial).toUpperCase();
+}
+
+// Parse a user-supplied hexadecimal serial number (RFC 5280 allows up to 20 octets)
+export function parseSerialNumber(hex: string): Uint8Array {
+  let clean = hex.trim().replace(/^0x/i, '').replace(/[\s:]/g, '');
+  if (!clean || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error('Serial number must be hexadecimal');
+  }
+  if (clean.length % 2 !== 0) {
+    clean = '0' + clean;
+  }
+  const bytes = fromHex(clean);
+  if (bytes.every(byte => byte === 0)) {
+    throw new Error('Serial number must be positive');
+  }
+  const magnitude = bytes.subarray(bytes.findIndex(byte => byte !== 0));
+  if (magnitude.length + (magnitude[0] & 0x80 ? 1 : 0) > 20) {
+    throw new Error('Serial number must not exceed 20 octets');
+  }
+  return magnitude;
+}
+
+// Extension builders
+
+export function basicConstraintsExtension(ca: boolean, pathLength?: number): Extension {
+  const fields: Uint8Array[] = [];
+  if (ca) fields.push(DER.boolean(true));
+  if (ca && pathLength !== undefined) fields.push(DER.integer(pathLength));
+  return { oid: OID.basicConstraints, critical: true, value: DER.sequence(...fields) };
+}
+
+export function keyUsageExtension(usages: number[]): Extension {
+  return { oid: OID.keyUsage, critical: true, value: DER.namedBits(usages) };
+}
+
+export function subjectKeyIdentifierExtension(keyIdentifier: Uint8Array): Extension {
+  return { oid: OID.subjectKeyIdentifier, critical: false, value: DER.octetString(keyIdentifier) };
+}
+
+export function authorityKeyIdentifierExtension(keyIdentifier: Uint8Array): Extension {
+  return {
+    oid: OID.authorityKeyIdentifier,
+    critical: false,
+    value: DER.sequence(DER.implicit(0, keyIdentifier)),
+  };
+}
+
+export interface GeneralName {
+  type: 'dns' | 'email' | 'uri' | 'ip';
+  value: string;
+}
+
+export function encodeGeneralName(name: GeneralName): Uint8Array {
+  const encoder = new TextEncoder();
+  switch (name.type) {
+    case 'email':
+      return DER.implicit(1, encoder.encode(name.value));
+    case 'dns':
+      return DER.implicit(2, encoder.encode(name.value));
+    case 'uri':
+      return DER.implicit(6, encoder.encode(name.value));
+    case 'ip': {
+      const octets = name.value.split('.').map(part => parseInt(part, 10));
+      if (octets.length !== 4 || octets.some(octet => isNaN(octet) || octet < 0 || octet > 255)) {
+        throw new Error(`Invalid IPv4 address: ${name.value}`);
+      }
+      return DER.implicit(7, new Uint8Array(octets));
+    }
+  }
+}
+
+// Parse "DNS:example.com, IP:10.0.0.1, email:a@b.c, URI:https://..." as used by OpenSSL configs
+export function parseGeneralNames(input: string): GeneralName[] {
+  const prefixes: Record<string, GeneralName['type']> = { dns: 'dns', ip: 'ip', email: 'email', uri: 'uri' };
+  return input.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const index = part.indexOf(':');
+    const type = index > 0 ? prefixes[part.substring(0, index).trim().toLowerCase()] : undefined;
+    if (!type) {
+      throw new Error(`Subject alternative name must start with DNS:, IP:, email: or URI: ("${part}")`);
+    }
+    const name = { type, value: part.substring(index + 1).trim() };
+    encodeGeneralName(name); // Validate early
+    return name;
+  });
+}
+
+export function subjectAltNameExtension(names: GeneralName[]): Extension {
+  return {
+    oid: OID.subjectAltName,
+    critical: false,
+    value: DER.sequence(...names.map(encodeGeneralName)),
+  };
+}
+
+// RFC 3161 requires a critical EKU on time-stamping certificates
+export function extKeyUsageExtension(purposes: string[], critical: boolean = false): Extension {
+  return { oid: OID.extKeyUsage, critical, value: DER.sequence(...purposes.map(oid => DER.oid(oid))) };
+}
+
+export async function exportSubjectPublicKeyInfo(publicKey: CryptoKey | Uint8Array): Promise<Uint8Array> {
+  if (publicKey instanceof Uint8Array) {
+    return publicKey;
+  }
+  if (isEdKey(publicKey)) {
+    return exportEdKey(publicKey, 'spki');
+  }
+  return new Uint8Array(await window.crypto.subtle.exportKey('spki', publicKey));
+}
+
+// RFC 5280 method 1: SHA-1 of the subjectPublicKey BIT STRING value
+export async function computeKeyIdentifier(publicKey: CryptoKey | Uint8Array): Promise<Uint8Array> {
+  const spki = DER.decode(await exportSubjectPublicKeyInfo(publicKey));
+  const { bytes } = DER.decodeBitString(spki.children[1]);
+  return new Uint8Array(await window.crypto.subtle.digest('SHA-1', bytes));
+}
+
+// Signing
+
+// WebCrypto digest names and their AlgorithmIdentifier OIDs
+export const HASH_OIDS: Record<string, string> = {
+  'SHA-1': OID.sha1,
+  'SHA-256': OID.sha256,
+  'SHA-384': OID.sha384,
+  'SHA-512': OID.sha512,
+};
+
+export const HASH_LENGTHS: Record<string, number> = {
+  'SHA-1': 20,
+  'SHA-256': 32,
+  'SHA-384': 48,
+  'SHA-512': 64,
+};
+
+interface SignatureScheme {
+  algorithmIdentifier: Uint8Array;
+  params: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  // Convert WebCrypto's output to the encoding carried in X.509/CMS structures
+  encode?: (signature: Uint8Array) => Uint8Array;
+}
+
+export const PKCS1_SIGNATURE_OIDS: Record<string, string> = {
+  'SHA-1': OID.sha1WithRSAEncryption,
+  'SHA-256': OID.sha256WithRSAEncryption,
+  'SHA-384': OID.sha384WithRSAEncryption,
+  'SHA-512': OID.sha512WithRSAEncryption,
+};
+
+const ECDSA_SIGNATURE_OIDS: Record<string, string> = {
+  'SHA-1': OID.ecdsaWithSHA1,
+  'SHA-256': OID.ecdsaWithSHA256,
+  'SHA-384': OID.ecdsaWithSHA384,
+  'SHA-512': OID.ecdsaWithSHA512,
+};
+
+function signatureSchemeFor(signingKey: CryptoKey): SignatureScheme {
+  // RFC 8410: the AlgorithmIdentifier carries no parameters; signing goes through edSign
+  if (isEdKey(signingKey)) {
+    return {
+      algorithmIdentifier: DER.sequence(DER.oid(edCurveOf(signingKey) === 'Ed25519' ? OID.ed25519 : OID.ed448)),
+      params: { name: signingKey.algorithm.name },
+    };
+  }
+  if (signingKey.algorithm.name === 'ECDSA') {
+    const hash = signingHash(signingKey);
+    return {
+      algorithmIdentifier: DER.sequence(DER.oid(ECDSA_SIGNATURE_OIDS[hash])),
+      params: { name: 'ECDSA', hash },
+      encode: ecdsaRawToDer,
+    };
+  }
+  const algorithm = signingKey.algorithm as RsaHashedKeyAlgorithm;
+  if (algorithm.name === 'RSASSA-PKCS1-v1_5') {
+    return {
+      algorithmIdentifier: DER.sequence(DER.oid(PKCS1_SIGNATURE_OIDS[algorithm.hash.name]), DER.null()),
+      params: { name: 'RSASSA-PKCS1-v1_5' },
+    };
+  }
+  if (algorithm.name !== 'RSA-PSS') {
+    throw new Error(`Unsupported signing key algorithm: ${algorithm.name}`);
+  }
+  const hash = algorithm.hash.name;
+  const hashAlgorithm = DER.sequence(DER.oid(HASH_OIDS[hash]), DER.null());
+  const saltLength = HASH_LENGTHS[hash];
+  return {
+    algorithmIdentifier: DER.sequence(
+      DER.oid(OID.rsassaPss),
+      DER.sequence(
+        DER.explicit(0, hashAlgorithm),
+        DER.explicit(1, DER.sequence(DER.oid(OID.mgf1), hashAlgorithm)),
+        DER.explicit(2, DER.integer(saltLength))
+      )
+    ),
+    params: { name: 'RSA-PSS', saltLength },
+  };
+}
+
+async function computeSignature(scheme: SignatureScheme, signingKey: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  if (isEdKey(signingKey)) {
+    return edSign(signingKey, data);
+  }
+  const signature = new Uint8Array(await window.crypto.subtle.sign(scheme.params, signingKey, data));
+  return scheme.encode ? scheme.encode(signature) : signature;
+}
+
+// Sign a TBS structure and wrap it as SEQUENCE { tbs, algorithm, signature, ...trailing }.
+// Trailing fields carry optional data after the signature, such as the certs of an OCSP response.
+export async function signStructure(
+  buildTbs: (signatureAlgorithm: Uint8Array) => Uint8Array,
+  signingKey: CryptoKey,
+  trailing: Uint8Array[] = []
+): Promise<Uint8Array> {
+  const scheme = signatureSchemeFor(signingKey);
+  const tbs = buildTbs(scheme.algorithmIdentifier);
+  const signature = await computeSignature(scheme, signingKey, tbs);
+  return DER.sequence(tbs, scheme.algorithmIdentifier, DER.bitString(signature), ...trailing);
+}
+
+// Sign arbitrary bytes, returning the signature with its AlgorithmIdentifier (e.g. for CMS SignerInfo)
+export async function signBytes(
+  data: Uint8Array,
+  signingKey: CryptoKey
+): Promise<{ algorithmIdentifier: Uint8Array; signature: Uint8Array }> {
+  const scheme = signatureSchemeFor(signingKey);
+  return { algorithmIdentifier: scheme.algorithmIdentifier, signature: await computeSignature(scheme, signingKey, data) };
+}
+
+// Digest algorithm used by a signing key, for message digests that accompany its signatures
+export function signingHash(signingKey: CryptoKey): string {
+  // RFC 8419 pairs Ed25519 with SHA-512; Ed448 would need SHAKE256, which WebCrypto lacks
+  if (isEdKey(signingKey)) {
+    if (signingKey.algorithm.name !== 'Ed25519') {
+      throw new Error(`${signingKey.algorithm.name} is not supported for signed message digests`);
+    }
+    return 'SHA-512';
+  }
+  if (signingKey.algorithm.name === 'ECDSA') {
+    return CURVE_HASHES[(signingKey.algorithm as EcKeyAlgorithm).namedCurve];
+  }
+  return (signingKey.algorithm as RsaHashedKeyAlgorithm).hash.name;
+}
+
+export function encodeExtensions(extensions: Extension[]): Uint8Array {
+  return DER.sequence(...extensions.map(extension => DER.sequence(
+    DER.oid(extension.oid),
+    ...(extension.critical ? [DER.boolean(true)] : []),
+    DER.octetString(extension.value)
+  )));
+}
+
+// Build and sign a DER-encoded X.509 v3 certificate
+export async function createCertificate(
+  template: CertificateTemplate,
+  signingKey: CryptoKey
+): Promise<Uint8Array> {
+  if (template.notAfter <= template.notBefore) {
+    throw new Error('Certificate must expire after it becomes valid');
+  }
+  const spki = await exportSubjectPublicKeyInfo(template.publicKey);
+  const serialNumber = template.serialNumber ?? randomSerialNumber();
+  const extensions = template.extensions ?? [];
+
+  return signStructure(signatureAlgorithm => DER.sequence(
+    DER.explicit(0, DER.integer(2)), // v3
+    DER.integer(serialNumber),
+    signatureAlgorithm,
+    encodeDN(template.issuer),
+    DER.sequence(DER.time(template.notBefore), DER.time(template.notAfter)),
+    encodeDN(template.subject),
+    spki,
+    ...(extensions.length > 0 ? [DER.explicit(3, encodeExtensions(extensions))] : [])
+  ), signingKey);
+}
+
+export function certificateToPem(der: Uint8Array): string {
+  return toPem(der, 'CERTIFICATE');
+}
+
+// Hostname-like common names also go into subjectAltName, which browsers require
+export function hostnameSubjectAltNames(dn: DistinguishedName): GeneralName[] {
+  const commonName = getDNAttribute(dn, OID.commonName);
+  if (commonName && /^(\*\.)?([a-z0-9-]+\.)+[a-z0-9-]+$/i.test(commonName)) {
+    return [{ type: 'dns', value: commonName }];
+  }
+  return [];
+}
+
+// Parsing
+
+export class CertificateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateParseError';
+  }
+}
+
+export interface AlgorithmIdentifierInfo {
+  oid: string;
+  parameters?: ASN1Node;
+}
+
+export interface ParsedCertificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  version: number;
+  serialNumber: Uint8Array;
+  signatureAlgorithm: AlgorithmIdentifierInfo;
+  issuer: DistinguishedName;
+  issuerDer: Uint8Array;
+  notBefore: Date;
+  notAfter: Date;
+  subject: DistinguishedName;
+  subjectDer: Uint8Array;
+  subjectPublicKeyInfo: Uint8Array;
+  publicKeyAlgorithm: AlgorithmIdentifierInfo;
+  extensions: Extension[];
+  signature: Uint8Array;
+}
+
+// Accept PEM text, bare Base64 or raw DER bytes
+export function certificateInputToDer(input: string | ArrayBuffer | Uint8Array): Uint8Array {
+  if (typeof input !== 'string') {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    if (bytes[0] === 0x30) {
+      return bytes;
+    }
+    return certificateInputToDer(new TextDecoder().decode(bytes));
+  }
+  const text = input.trim();
+  if (!text) {
+    throw new CertificateParseError('Certificate input is empty');
+  }
+  if (text.includes('-----BEGIN')) {
+    try {
+      const { label, der } = fromPem(text);
+      if (label !== 'CERTIFICATE' && label !== 'X509 CERTIFICATE' && label !== 'TRUSTED CERTIFICATE') {
+        throw new CertificateParseError(`Expected a CERTIFICATE PEM block but found "${label}"`);
+      }
+      return der;
+    } catch (error) {
+      if (error instanceof CertificateParseError) throw error;
+      throw new CertificateParseError(`Invalid PEM encoding: ${(error as Error).message}`);
+    }
+  }
+  if (!/^[A-Za-z0-9+/=\s]+$/.test(text)) {
+    throw new CertificateParseError('Input is neither PEM nor Base64-encoded DER');
+  }
+  try {
+    return fromBase64(text);
+  } catch {
+    throw new CertificateParseError('Invalid Base64 encoding');
+  }
+}
+
+// Parse every CERTIFICATE block in a PEM bundle, in order
+export function parseCertificateBundle(pem: string): ParsedCertificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  return blocks.map(block => parseCertificate(certificateInputToDer(block)));
+}
+
+export function parseAlgorithmIdentifier(node: ASN1Node): AlgorithmIdentifierInfo {
+  DER.expect(node, Tag.SEQUENCE, 'AlgorithmIdentifier');
+  return { oid: DER.decodeOid(node.children[0]), parameters: node.children[1] };
+}
+
+export function decodeDN(node: ASN1Node): DistinguishedName {
+  DER.expect(node, Tag.SEQUENCE, 'Name');
+  return node.children.map(rdn => {
+    DER.expect(rdn, Tag.SET, 'RelativeDistinguishedName');
+    return rdn.children.map(attribute => {
+      DER.expect(attribute, Tag.SEQUENCE, 'AttributeTypeAndValue');
+      return { type: DER.decodeOid(attribute.children[0]), value: DER.decodeString(attribute.children[1]) };
+    });
+  });
+}
+
+export function parseCertificate(input: ArrayBuffer | Uint8Array): ParsedCertificate {
+  try {
+    const der = input instanceof Uint8Array ? input : new Uint8Array(input);
+    const certificate = DER.expect(DER.decode(der), Tag.SEQUENCE, 'Certificate');
+    if (certificate.children.length !== 3) {
+      throw new CertificateParseError('Certificate must contain tbsCertificate, signatureAlgorithm and signature');
+    }
+    const [tbsNode, signatureAlgorithmNode, signatureNode] = certificate.children;
+    DER.expect(tbsNode, Tag.SEQUENCE, 'TBSCertificate');
+
+    const fields = [...tbsNode.children];
+    let version = 1;
+    if (fields[0]?.tagClass === TagClass.CONTEXT && fields[0].tag === 0) {
+      version = Number(DER.decodeInteger(fields.shift()!.children[0])) + 1;
+      if (version < 1 || version > 3) {
+        throw new CertificateParseError(`Unsupported certificate version ${version}`);
+      }
+    }
+    if (fields.length < 6) {
+      throw new CertificateParseError('TBSCertificate is missing required fields');
+    }
+    const [serialNode, innerAlgorithmNode, issuerNode, validityNode, subjectNode, spkiNode, ...optional] = fields;
+
+    DER.expect(serialNode, Tag.INTEGER, 'serialNumber');
+    const signatureAlgorithm = parseAlgorithmIdentifier(signatureAlgorithmNode);
+    if (parseAlgorithmIdentifier(innerAlgorithmNode).oid !== signatureAlgorithm.oid) {
+      throw new CertificateParseError('Signature algorithm in TBSCertificate does not match the outer algorithm');
+    }
+    DER.expect(validityNode, Tag.SEQUENCE, 'Validity');
+    if (validityNode.children.length !== 2) {
+      throw new CertificateParseError('Validity must contain notBefore and notAfter');
+    }
+    DER.expect(spkiNode, Tag.SEQUENCE, 'SubjectPublicKeyInfo');
+
+    let extensions: Extension[] = [];
+    const extensionsNode = optional.find(node => node.tagClass === TagClass.CONTEXT && node.tag === 3);
+    if (extensionsNode) {
+      if (version !== 3) {
+        throw new CertificateParseError('Extensions are only allowed in version 3 certificates');
+      }
+      extensions = decodeExtensions(extensionsNode.children[0]);
+    }
+
+    return {
+      der,
+      tbs: tbsNode.raw,
+      version,
+      serialNumber: DER.decodeIntegerBytes(serialNode),
+      signatureAlgorithm,
+      issuer: decodeDN(issuerNode),
+      issuerDer: issuerNode.raw,
+      notBefore: DER.decodeTime(validityNode.children[0]),
+      notAfter: DER.decodeTime(validityNode.children[1]),
+      subject: decodeDN(subjectNode),
+      subjectDer: subjectNode.raw,
+      subjectPublicKeyInfo: spkiNode.raw,
+      publicKeyAlgorithm: parseAlgorithmIdentifier(spkiNode.children[0]),
+      extensions,
+      signature: DER.decodeBitString(signatureNode).bytes,
+    };
+  } catch (error) {
+    if (error instanceof CertificateParseError) throw error;
+    throw new CertificateParseError(`Malformed certificate: ${(error as Error).message}`);
+  }
+}
+
+export function decodeExtensions(node: ASN1Node): Extension[] {
+  const extensions: Extension[] = [];
+  for (const extension of DER.expect(node, Tag.SEQUENCE, 'Extensions').children) {
+    DER.expect(extension, Tag.SEQUENCE, 'Extension');
+    const critical = extension.children.length === 3 && DER.decodeBoolean(extension.children[1]);
+    const valueNode = DER.expect(extension.children[extension.children.length - 1], Tag.OCTET_STRING, 'extnValue');
+    const oid = DER.decodeOid(extension.children[0]);
+    if (extensions.some(existing => existing.oid === oid)) {
+      throw new CertificateParseError(`Duplicate extension ${oidName(oid)}`);
+    }
+    extensions.push({ oid, critical, value: valueNode.value });
+  }
+  return extensions;
+}
+
+export function getExtension(certificate: ParsedCertificate, oid: string): Extension | undefined {
+  return certificate.extensions.find(extension => extension.oid === oid);
+}
+
+// Extension decoders
+
+export interface BasicConstraints {
+  ca: boolean;
+  pathLength?: number;
+}
+
+export function decodeBasicConstraints(value: Uint8Array): BasicConstraints {
+  const sequence = DER.expect(DER.decode(value), Tag.SEQUENCE, 'BasicConstraints');
+  let ca = false;
+  let pathLength: number | undefined;
+  for (const child of sequence.children) {
+    if (child.tag === Tag.BOOLEAN) ca = DER.decodeBoolean(child);
+    if (child.tag === Tag.INTEGER) pathLength = Number(DER.decodeInteger(child));
+  }
+  return { ca, pathLength };
+}
+
+export function decodeKeyUsage(value: Uint8Array): number[] {
+  return DER.decodeNamedBits(DER.decode(value));
+}
+
+export function decodeExtKeyUsage(value: Uint8Array): string[] {
+  return DER.expect(DER.decode(value), Tag.SEQUENCE, 'ExtKeyUsageSyntax').children.map(child => DER.decodeOid(child));
+}
+
+export function decodeKeyIdentifier(value: Uint8Array): Uint8Array {
+  return DER.expect(DER.decode(value), Tag.OCTET_STRING, 'KeyIdentifier').value;
+}
+
+export function decodeAuthorityKeyIdentifier(value: Uint8Array): Uint8Array | undefined {
+  const sequence = DER.expect(DER.decode(value), Tag.SEQUENCE, 'AuthorityKeyIdentifier');
+  return DER.contextChild(sequence, 0)?.value;
+}
+
+export interface DecodedGeneralName {
+  type: GeneralName['type'] | 'directory' | 'other';
+  value: string;
+}
+
+export function decodeGeneralName(node: ASN1Node): DecodedGeneralName {
+  const text = () => new TextDecoder().decode(node.value);
+  switch (node.tag) {
+    case 1:
+      return { type: 'email', value: text() };
+    case 2:
+      return { type: 'dns', value: text() };
+    case 4:
+      return { type: 'directory', value: formatDN(decodeDN(node.children[0])) };
+    case 6:
+      return { type: 'uri', value: text() };
+    case 7:
+      if (node.value.length === 4) {
+        return { type: 'ip', value: Array.from(node.value).join('.') };
+      }
+      return {
+        type: 'ip',
+        value: Array.from({ length: node.value.length / 2 }, (_, i) =>
+          ((node.value[i * 2] << 8) | node.value[i * 2 + 1]).toString(16)
+        ).join(':'),
+      };
+    default:
+      return { type: 'other', value: `[${node.tag}]` };
+  }
+}
+
+export function decodeGeneralNames(value: Uint8Array): DecodedGeneralName[] {
+  return DER.expect(DER.decode(value), Tag.SEQUENCE, 'GeneralNames').children.map(decodeGeneralName);
+}
+
+export const KEY_USAGE_NAMES = [
+  'Digital Signature', 'Non Repudiation', 'Key Encipherment', 'Data Encipherment',
+  'Key Agreement', 'Certificate Sign', 'CRL Sign', 'Encipher Only', 'Decipher Only',
+];
+
+const GENERAL_NAME_PREFIXES: Record<DecodedGeneralName['type'], string> = {
+  dns: 'DNS', email: 'email', uri: 'URI', ip: 'IP Address', directory: 'DirName', other: 'othername',
+};
+
+// Colon-separated upper-case hex, as used for key identifiers and fingerprints
+export function formatKeyId(bytes: Uint8Array): string {
+  return toHex(bytes).toUpperCase().match(/.{2}/g)?.join(':') ?? '';
+}
+
+// Human-readable rendering of an extension value, in the spirit of `openssl x509 -text`
+export function describeExtension(extension: Extension): string {
+  try {
+    switch (extension.oid) {
+      case OID.basicConstraints: {
+        const constraints = decodeBasicConstraints(extension.value);
+        return `CA:${constraints.ca ? 'TRUE' : 'FALSE'}`
+          + (constraints.pathLength !== undefined ? `, pathlen:${constraints.pathLength}` : '');
+      }
+      case OID.keyUsage:
+        return decodeKeyUsage(extension.value).map(bit => KEY_USAGE_NAMES[bit] ?? `bit ${bit}`).join(', ');
+      case OID.extKeyUsage:
+        return decodeExtKeyUsage(extension.value).map(oidName).join(', ');
+      case OID.subjectKeyIdentifier:
+        return formatKeyId(decodeKeyIdentifier(extension.value));
+      case OID.authorityKeyIdentifier: {
+        const keyId = decodeAuthorityKeyIdentifier(extension.value);
+        return keyId ? formatKeyId(keyId) : '(no key identifier)';
+      }
+      case OID.subjectAltName:
+      case OID.issuerAltName:
+        return decodeGeneralNames(extension.value)
+          .map(name => `${GENERAL_NAME_PREFIXES[name.type]}:${name.value}`)
+          .join(', ');
+      default:
+        return toHex(extension.value);
+    }
+  } catch {
+    return `(malformed) ${toHex(extension.value)}`;
+  }
+}
+
+export function describeSignatureAlgorithm(algorithm: AlgorithmIdentifierInfo): string {
+  if (algorithm.oid === OID.rsassaPss) {
+    const { hash, saltLength } = parsePssParameters(algorithm.parameters);
+    return `RSASSA-PSS (${hash}, salt ${saltLength})`;
+  }
+  return oidName(algorithm.oid);
+}
+
+// Signature verification
+
+const SIGNATURE_HASHES: Record<string, string> = {
+  [OID.sha1WithRSAEncryption]: 'SHA-1',
+  [OID.sha256WithRSAEncryption]: 'SHA-256',
+  [OID.sha384WithRSAEncryption]: 'SHA-384',
+  [OID.sha512WithRSAEncryption]: 'SHA-512',
+  [OID.ecdsaWithSHA1]: 'SHA-1',
+  [OID.ecdsaWithSHA256]: 'SHA-256',
+  [OID.ecdsaWithSHA384]: 'SHA-384',
+  [OID.ecdsaWithSHA512]: 'SHA-512',
+};
+
+export const HASH_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(HASH_OIDS).map(([name, oid]) => [oid, name])
+);
+
+// Field size in bits of each curve: GF(2^255 - 19) for Ed25519 and GF(2^448 - 2^224 - 1) for Ed448
+export const CURVE_SIZES: Record<string, number> = { 'P-256': 256, 'P-384': 384, 'P-521': 521, Ed25519: 255, Ed448: 448 };
+
+// Digest conventionally paired with each curve (as in JWS ES256/ES384/ES512)
+export const CURVE_HASHES: Record<string, string> = { 'P-256': 'SHA-256', 'P-384': 'SHA-384', 'P-521': 'SHA-512' };
+
+export const CURVE_NAMES: Record<string, string> = {
+  [OID.secp256r1]: 'P-256',
+  [OID.secp384r1]: 'P-384',
+  [OID.secp521r1]: 'P-521',
+};
+
+// Convert an ECDSA-Sig-Value (SEQUENCE { r, s }) into WebCrypto's fixed-width r || s
+export function ecdsaDerToRaw(signature: Uint8Array, coordinateLength: number): Uint8Array {
+  const sequence = DER.expect(DER.decode(signature), Tag.SEQUENCE, 'ECDSA signature');
+  const raw = new Uint8Array(coordinateLength * 2);
+  sequence.children.slice(0, 2).forEach((node, index) => {
+    const value = DER.decodeIntegerBytes(node);
+    if (value.length > coordinateLength) {
+      throw new Error('ECDSA signature component is too long');
+    }
+    raw.set(value, (index + 1) * coordinateLength - value.length);
+  });
+  return raw;
+}
+
+// Convert WebCrypto's fixed-width r || s into an ECDSA-Sig-Value
+export function ecdsaRawToDer(signature: Uint8Array): Uint8Array {
+  const half = signature.length / 2;
+  return DER.sequence(DER.integer(signature.subarray(0, half)), DER.integer(signature.subarray(half)));
+}
+
+export function parsePssParameters(parameters?: ASN1Node): { hash: string; saltLength: number } {
+  let hash = 'SHA-1';
+  let saltLength = 20;
+  if (parameters?.tag === Tag.SEQUENCE) {
+    const hashNode = DER.contextChild(parameters, 0);
+    const saltNode = DER.contextChild(parameters, 2);
+    if (hashNode) hash = HASH_NAMES[DER.decodeOid(hashNode.children[0].children[0])] ?? 'unknown';
+    if (saltNode) saltLength = Number(DER.decodeInteger(saltNode.children[0]));
+  }
+  return { hash, saltLength };
+}
+
+// Verify a signature over `data` made by the holder of the given SubjectPublicKeyInfo
+export async function verifySignedData(
+  data: Uint8Array,
+  algorithm: AlgorithmIdentifierInfo,
+  signature: Uint8Array,
+  subjectPublicKeyInfo: Uint8Array
+): Promise<boolean> {
+  const subtle = window.crypto.subtle;
+
+  if (algorithm.oid === OID.rsassaPss) {
+    const { hash, saltLength } = parsePssParameters(algorithm.parameters);
+    const key = await subtle.importKey('spki', subjectPublicKeyInfo, { name: 'RSA-PSS', hash }, false, ['verify']);
+    return subtle.verify({ name: 'RSA-PSS', saltLength }, key, signature, data);
+  }
+
+  const hash = SIGNATURE_HASHES[algorithm.oid];
+  if (hash && algorithm.oid.startsWith('1.2.840.113549.')) {
+    const key = await subtle.importKey('spki', subjectPublicKeyInfo, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify']);
+    return subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+  }
+
+  if (hash) {
+    const spki = DER.decode(subjectPublicKeyInfo);
+    const curveNode = parseAlgorithmIdentifier(spki.children[0]).parameters;
+    const namedCurve = curveNode?.tag === Tag.OID ? CURVE_NAMES[DER.decodeOid(curveNode)] : undefined;
+    if (!namedCurve) {
+      throw new Error('Unsupported elliptic curve');
+    }
+    const key = await subtle.importKey('spki', subjectPublicKeyInfo, { name: 'ECDSA', namedCurve }, false, ['verify']);
+    const coordinateLength = Math.ceil(CURVE_SIZES[namedCurve] / 8);
+    return subtle.verify({ name: 'ECDSA', hash }, key, ecdsaDerToRaw(signature, coordinateLength), data);
+  }
+
+  if (algorithm.oid === OID.ed25519 || algorithm.oid === OID.ed448) {
+    const key = await importEdKey('spki', subjectPublicKeyInfo, algorithm.oid === OID.ed25519 ? 'Ed25519' : 'Ed448');
+    return edVerify(key, signature, data);
+  }
+
+  throw new Error(`Unsupported signature algorithm: ${oidName(algorithm.oid)}`);
+}
+
+export function verifyCertificateSignature(
+  certificate: ParsedCertificate,
+  issuerPublicKeyInfo: Uint8Array
+): Promise<boolean> {
+  return verifySignedData(certificate.tbs, certificate.signatureAlgorithm, certificate.signature, issuerPublicKeyInfo);
+}
+
+// Name comparison after RFC 4518-style normalisation (case and whitespace folding)
+export function namesMatch(a: DistinguishedName, b: DistinguishedName): boolean {
+  const normalize = (dn: DistinguishedName) => dn.map(rdn => rdn
+    .map(attribute => `${attribute.type}=${attribute.value.trim().replace(/\s+/g, ' ').toLowerCase()}`)
+    .sort()
+    .join('+')
+  ).join(',');
+  return normalize(a) === normalize(b);
+}
+
+export function isSelfIssued(certificate: ParsedCertificate): boolean {
+  return namesMatch(certificate.subject, certificate.issuer);
+}
+
+export interface PublicKeyDescription {
+  algorithm: string;
+  size: number;
+  description: string;
+}
+
+export function describeSubjectPublicKey(spki: Uint8Array): PublicKeyDescription {
+  const node = DER.expect(DER.decode(spki), Tag.SEQUENCE, 'SubjectPublicKeyInfo');
+  const algorithm = parseAlgorithmIdentifier(node.children[0]);
+  const { bytes } = DER.decodeBitString(node.children[1]);
+  switch (algorithm.oid) {
+    case OID.rsaEncryption:
+    case OID.rsassaPss: {
+      const modulus = DER.decodeIntegerBytes(DER.decode(bytes).children[0]);
+      const size = modulus.length * 8 - Math.clz32(modulus[0]) + 24;
+      return { algorithm: 'RSA', size, description: `RSA ${size} bits` };
+    }
+    case OID.ecPublicKey: {
+      const curve = algorithm.parameters?.tag === Tag.OID ? oidName(DER.decodeOid(algorithm.parameters)) : 'unknown curve';
+      const size = CURVE_SIZES[curve] ?? ((bytes.length - 1) / 2) * 8;
+      return { algorithm: 'EC', size, description: `EC ${curve}` };
+    }
+    case OID.ed25519:
+      return { algorithm: 'Ed25519', size: CURVE_SIZES.Ed25519, description: 'Ed25519' };
+    case OID.ed448:
+      return { algorithm: 'Ed448', size: CURVE_SIZES.Ed448, description: 'Ed448' };
+    default:
+      return { algorithm: oidName(algorithm.oid), size: bytes.length * 8, description: oidName(algorithm.oid) };
+  }
+}